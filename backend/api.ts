@@ -0,0 +1,593 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { GENERATION_ERROR_CODES } from "./errors";
+import { GenerationResult, REFINE_STAGES } from "./generation";
+import type { GenerationRecord } from "./history";
+import { JOB_STAGES, JOB_STATUSES, Job } from "./jobs";
+import { presentMedia, signEventsUrl } from "./media";
+import type { MediaMetadata } from "./previews";
+import { ASPECT_RATIOS, RenderSettings } from "./settings";
+import { StoryboardSchema } from "./storyboard";
+import { USAGE_STAGES, UsageSummary } from "./usage";
+import {
+  DELIVERY_STATUSES,
+  WEBHOOK_EVENTS,
+  WebhookDelivery,
+  WebhookTargetSchema,
+} from "./webhooks";
+
+// Bumped when a field of the response envelope changes meaning or goes away;
+// new fields can be added within a version
+export const API_VERSION = "v1";
+
+export const GenerateRequestSchema = z.object({
+  prompt: z.string(),
+  // true to have the style agent plan a shot list, or a previously returned
+  // (possibly edited) storyboard to render again with the given style
+  storyboard: z.union([z.boolean(), StoryboardSchema]).optional(),
+  // Skips triage; also the style to render a re-run storyboard with
+  style: z.string().optional(),
+  // Brand kit to put on the video, or false for none; styles branded by
+  // default use the default kit when omitted
+  brandKit: z.union([z.string(), z.literal(false)]).optional(),
+  // Music track from the library, or false for none; picked to fit the style
+  // when omitted
+  music: z.union([z.string(), z.literal(false)]).optional(),
+  // Where to POST the outcome; the API key's webhook applies when omitted
+  webhook: WebhookTargetSchema.optional(),
+});
+
+export const RefineRequestSchema = z.object({
+  stage: z.enum(REFINE_STAGES),
+  // Edited narration for the narration stage; rewritten when omitted
+  narration: z.string().min(1).optional(),
+  // New keyframe prompt for the image stage; from the template when omitted
+  visualPrompt: z.string().min(1).optional(),
+  // Style whose templates, voice and caption look the stage uses
+  style: z.string().optional(),
+  // Brand kit for the new version, or false for none; the parent's otherwise
+  brandKit: z.union([z.string(), z.literal(false)]).optional(),
+  // Music track for the new version, or false for none; the parent's otherwise
+  music: z.union([z.string(), z.literal(false)]).optional(),
+  // Where to POST the outcome; the API key's webhook applies when omitted
+  webhook: WebhookTargetSchema.optional(),
+});
+
+// Settings a run actually used
+const ResolvedSettingsSchema: z.ZodType<RenderSettings> = z.object({
+  aspectRatio: z.enum(ASPECT_RATIOS),
+  numberOfVideos: z.number().int(),
+  durationSeconds: z.number().int().optional(),
+  textModel: z.string(),
+  imageModel: z.string(),
+  videoModel: z.string(),
+});
+
+const UsageSummarySchema: z.ZodType<UsageSummary> = z.object({
+  currency: z.string(),
+  totalCost: z.number(),
+  entries: z.array(
+    z.object({
+      stage: z.enum(USAGE_STAGES),
+      style: z.string().optional(),
+      model: z.string(),
+      cost: z.number(),
+      estimated: z.boolean().optional(),
+      requests: z.number().optional(),
+      inputTokens: z.number().optional(),
+      outputTokens: z.number().optional(),
+      images: z.number().optional(),
+      videoSeconds: z.number().optional(),
+      characters: z.number().optional(),
+    })
+  ),
+});
+
+const MediaMetadataSchema: z.ZodType<MediaMetadata> = z.object({
+  durationSeconds: z.number(),
+  width: z.number().int(),
+  height: z.number().int(),
+  videoCodec: z.string(),
+  audioCodec: z.string().optional(),
+  sizeBytes: z.number().int(),
+});
+
+const ArtifactsSchema = z.object({
+  videos: z
+    .array(z.string())
+    .describe("Deliverables: the merged video, or each clip when not merged"),
+  clips: z.array(z.string()).describe("Individual clips as rendered"),
+  image: z.string().nullable().describe("Keyframe still, when kept"),
+  poster: z
+    .string()
+    .nullable()
+    .describe("Gallery poster: the keyframe, else the first thumbnail"),
+  previews: z
+    .array(
+      z.object({
+        video: z.string(),
+        thumbnail: z.string().describe("JPEG frame from mid-video"),
+        preview: z.string().describe("Short looping GIF or WebP"),
+        media: MediaMetadataSchema,
+      })
+    )
+    .describe("One per deliverable video"),
+  voiceover: z.string().nullable(),
+  captions: z.array(
+    z.object({ video: z.string(), srt: z.string(), vtt: z.string() })
+  ),
+});
+
+const GenerationErrorSchema = z.object({
+  code: z.enum(GENERATION_ERROR_CODES).nullable(),
+  message: z.string(),
+  details: z
+    .record(z.unknown())
+    .optional()
+    .describe("Structured context, e.g. the moderation verdict"),
+});
+
+// Shape of every job and generation the API returns. Media paths are
+// short-lived signed URLs.
+export const GenerationResponseSchema = z.object({
+  apiVersion: z.literal(API_VERSION),
+  id: z.string(),
+  status: z.enum(JOB_STATUSES),
+  stage: z.enum(JOB_STAGES),
+  prompt: z.string(),
+  userId: z.string().nullable(),
+  style: z.string().nullable().describe("Style chosen by triage or requested"),
+  narration: z.string().nullable(),
+  visualPrompt: z.string().nullable(),
+  summary: z
+    .string()
+    .nullable()
+    .describe(
+      "The style agent's description of the video, or the triage agent's answer when no video was made"
+    ),
+  question: z
+    .string()
+    .nullable()
+    .describe("Clarifying question from triage, when status is needs_input"),
+  sessionId: z
+    .string()
+    .nullable()
+    .describe("Conversation to reply to with POST /api/sessions/{id}/reply"),
+  parentId: z
+    .string()
+    .nullable()
+    .describe("Generation this one refined a single stage of"),
+  version: z
+    .number()
+    .int()
+    .nullable()
+    .describe("1 for an original, one more than its parent for a refinement"),
+  settings: ResolvedSettingsSchema.nullable(),
+  brandKit: z
+    .string()
+    .nullable()
+    .describe("Brand kit the videos were branded with"),
+  music: z.string().nullable().describe("Music track under the videos"),
+  artifacts: ArtifactsSchema,
+  storyboard: StoryboardSchema.nullable(),
+  usage: UsageSummarySchema.nullable(),
+  error: GenerationErrorSchema.nullable(),
+  eventsUrl: z
+    .string()
+    .nullable()
+    .describe(
+      "Short-lived signed URL of the job's progress stream, for EventSource clients that can't send an Authorization header"
+    ),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type GenerationResponse = z.infer<typeof GenerationResponseSchema>;
+
+const WebhookDeliverySchema: z.ZodType<WebhookDelivery> = z.object({
+  id: z.string().describe("Also sent as X-Webhook-Id and the payload's id"),
+  jobId: z.string(),
+  userId: z.string().optional(),
+  url: z.string(),
+  event: z.enum(WEBHOOK_EVENTS),
+  status: z
+    .enum(DELIVERY_STATUSES)
+    .describe("dead once every retry failed; redeliver to try again"),
+  attempts: z.number().int(),
+  lastError: z.string().optional(),
+  lastStatusCode: z.number().int().optional(),
+  nextAttemptAt: z.string().optional(),
+  createdAt: z.string(),
+  deliveredAt: z.string().optional(),
+});
+
+const ErrorResponseSchema = z.object({
+  error: z.string(),
+  moderation: z
+    .object({
+      allowed: z.literal(false),
+      source: z.enum(["denylist", "pattern", "injection", "model"]),
+      category: z.string(),
+      reason: z.string(),
+    })
+    .optional()
+    .describe("Why the prompt was rejected, on 422 responses"),
+});
+
+const resultFields = (result?: GenerationResult) => ({
+  narration: result?.narration ?? null,
+  visualPrompt: result?.visualPrompt ?? null,
+  settings: result?.settings ?? null,
+  brandKit: result?.brandKit ?? null,
+  music: result?.music ?? null,
+  artifacts: {
+    videos: result?.finalVideoPaths ?? [],
+    clips: result?.clipPaths ?? [],
+    image: result?.imagePath ?? null,
+    poster: result?.imagePath ?? result?.previews?.[0]?.thumbnailPath ?? null,
+    previews: (result?.previews ?? []).map((preview) => ({
+      video: preview.videoPath,
+      thumbnail: preview.thumbnailPath,
+      preview: preview.previewPath,
+      media: preview.media,
+    })),
+    voiceover: result?.voiceoverPath ?? null,
+    captions: (result?.captions ?? []).map((files) => ({
+      video: files.videoPath,
+      srt: files.srtPath,
+      vtt: files.vttPath,
+    })),
+  },
+  storyboard: result?.storyboard ?? null,
+  usage: result?.usage ?? null,
+  parentId: result?.refinedFrom?.generationId ?? null,
+});
+
+// Envelope for a queued, running or finished job
+export function presentJob(job: Job): GenerationResponse {
+  const summary =
+    typeof job.output === "string" ? job.output : job.output?.summary;
+  return presentMedia({
+    apiVersion: API_VERSION,
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    prompt: job.prompt,
+    userId: job.userId ?? null,
+    style: job.style ?? null,
+    summary: summary ?? job.result?.summary ?? null,
+    question: job.question ?? null,
+    sessionId: job.sessionId ?? null,
+    // The version is assigned when the generation is saved
+    version: null,
+    ...resultFields(job.result),
+    error: job.error
+      ? {
+          code: job.errorCode ?? null,
+          message: job.error,
+          details: job.errorDetails,
+        }
+      : null,
+    eventsUrl: signEventsUrl(job.id),
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  });
+}
+
+// Envelope for a generation from the history; only finished ones are kept
+export function presentGeneration(
+  record: GenerationRecord
+): GenerationResponse {
+  return presentMedia({
+    apiVersion: API_VERSION,
+    id: record.id,
+    status: "succeeded",
+    stage: "done",
+    prompt: record.prompt,
+    userId: record.userId ?? null,
+    style: record.style,
+    summary: record.result.summary ?? null,
+    question: null,
+    sessionId: null,
+    version: record.version,
+    ...resultFields(record.result),
+    error: null,
+    eventsUrl: null,
+    createdAt: record.createdAt,
+    updatedAt: record.completedAt,
+  });
+}
+
+const jsonSchema = (schema: z.ZodTypeAny) =>
+  zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" });
+
+const json = (schema: string) => ({
+  content: { "application/json": { schema: { $ref: schema } } },
+});
+
+const errorResponses = (...codes: number[]) =>
+  Object.fromEntries(
+    codes.map((code) => [
+      code,
+      { description: "Error", ...json("#/components/schemas/ErrorResponse") },
+    ])
+  );
+
+const idParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+// OpenAPI description of the generation endpoints and their envelope.
+// `requestSettings` is the render settings schema for the configured providers.
+export function createOpenApiDocument(requestSettings: z.ZodTypeAny) {
+  const generationResponse = json("#/components/schemas/GenerationResponse");
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Video generation API",
+      version: API_VERSION,
+    },
+    security: [{ bearerAuth: [] }, { apiKey: [] }],
+    paths: {
+      "/api/generate-video": {
+        post: {
+          summary: "Queue a video generation",
+          requestBody: {
+            required: true,
+            ...json("#/components/schemas/GenerateRequest"),
+          },
+          responses: {
+            202: { description: "Job queued", ...generationResponse },
+            ...errorResponses(400, 401, 422, 429),
+          },
+        },
+      },
+      "/api/jobs": {
+        get: {
+          summary: "Jobs of the caller, newest first",
+          responses: {
+            200: {
+              description: "Jobs",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      jobs: {
+                        type: "array",
+                        items: {
+                          $ref: "#/components/schemas/GenerationResponse",
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            ...errorResponses(401),
+          },
+        },
+      },
+      "/api/jobs/{id}": {
+        parameters: [idParameter],
+        get: {
+          summary: "A job's status and, once done, its result",
+          responses: {
+            200: { description: "Job", ...generationResponse },
+            ...errorResponses(401, 403, 404),
+          },
+        },
+        delete: {
+          summary: "Cancel a queued or running job",
+          responses: {
+            202: { description: "Cancelling", ...generationResponse },
+            ...errorResponses(401, 403, 404, 409),
+          },
+        },
+      },
+      "/api/sessions/{id}/reply": {
+        parameters: [idParameter],
+        post: {
+          summary: "Answer a clarifying question and resume generation",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { reply: { type: "string", minLength: 1 } },
+                  required: ["reply"],
+                },
+              },
+            },
+          },
+          responses: {
+            202: { description: "Reply queued", ...generationResponse },
+            ...errorResponses(400, 401, 403, 404, 409, 422, 429),
+          },
+        },
+      },
+      "/api/webhooks/deliveries": {
+        get: {
+          summary: "Webhook deliveries of the caller's jobs, newest first",
+          parameters: [
+            {
+              name: "status",
+              in: "query",
+              required: false,
+              schema: { type: "string", enum: [...DELIVERY_STATUSES] },
+              description: "dead for the dead-letter list",
+            },
+          ],
+          responses: {
+            200: {
+              description: "Deliveries",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      deliveries: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/WebhookDelivery" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            ...errorResponses(400, 401),
+          },
+        },
+      },
+      "/api/webhooks/deliveries/{id}/redeliver": {
+        parameters: [idParameter],
+        post: {
+          summary: "Send a delivery again, with freshly signed media links",
+          responses: {
+            202: {
+              description: "Redelivery queued",
+              ...json("#/components/schemas/WebhookDelivery"),
+            },
+            ...errorResponses(401, 403, 404),
+          },
+        },
+      },
+      "/api/generations": {
+        get: {
+          summary: "Finished generations of the caller, newest first",
+          parameters: [
+            {
+              name: "userId",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+              description: "Admins only; everyone else sees their own",
+            },
+            {
+              name: "style",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+            },
+            {
+              name: "from",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+              description: "ISO date or timestamp, inclusive",
+            },
+            {
+              name: "to",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+              description:
+                "ISO date (inclusive of the whole day) or timestamp (exclusive)",
+            },
+            {
+              name: "q",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+              description:
+                "Matched against the prompt, narration and visual prompt",
+            },
+            {
+              name: "parentId",
+              in: "query",
+              required: false,
+              schema: { type: "string" },
+              description: "Refinements of this generation",
+            },
+            {
+              name: "limit",
+              in: "query",
+              required: false,
+              schema: {
+                type: "integer",
+                minimum: 1,
+                maximum: 200,
+                default: 50,
+              },
+            },
+            {
+              name: "offset",
+              in: "query",
+              required: false,
+              schema: { type: "integer", minimum: 0, default: 0 },
+            },
+          ],
+          responses: {
+            200: {
+              description: "Generations",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      generations: {
+                        type: "array",
+                        items: {
+                          $ref: "#/components/schemas/GenerationResponse",
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            ...errorResponses(400, 401),
+          },
+        },
+      },
+      "/api/generations/{id}": {
+        parameters: [idParameter],
+        get: {
+          summary: "A finished generation from the history",
+          responses: {
+            200: { description: "Generation", ...generationResponse },
+            ...errorResponses(401, 403, 404),
+          },
+        },
+        delete: {
+          summary: "Delete a generation and its stored media",
+          responses: {
+            204: { description: "Deleted" },
+            ...errorResponses(401, 403, 404, 409),
+          },
+        },
+      },
+      "/api/generations/{id}/refine": {
+        parameters: [idParameter],
+        post: {
+          summary: "Re-run one stage of a generation as a new version",
+          requestBody: {
+            required: true,
+            ...json("#/components/schemas/RefineRequest"),
+          },
+          responses: {
+            202: { description: "Refinement queued", ...generationResponse },
+            ...errorResponses(400, 401, 403, 404, 422, 429),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        GenerateRequest: jsonSchema(GenerateRequestSchema.and(requestSettings)),
+        RefineRequest: jsonSchema(RefineRequestSchema),
+        GenerationResponse: jsonSchema(GenerationResponseSchema),
+        WebhookDelivery: jsonSchema(WebhookDeliverySchema),
+        ErrorResponse: jsonSchema(ErrorResponseSchema),
+      },
+    },
+  };
+}
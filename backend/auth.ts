@@ -0,0 +1,313 @@
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { withTables } from "./db";
+import type { WebhookTarget } from "./webhooks";
+
+// HS256 secret shared with whoever issues bearer tokens; JWTs are rejected
+// when unset and only API keys work
+const AUTH_JWT_SECRET = process.env.AUTH_JWT_SECRET;
+const AUTH_JWT_ISSUER = process.env.AUTH_JWT_ISSUER || undefined;
+const AUTH_JWT_AUDIENCE = process.env.AUTH_JWT_AUDIENCE || undefined;
+
+// Local development only: every request acts as an admin
+const AUTH_DISABLED = process.env.AUTH_DISABLED === "true";
+
+// API keys are told apart from JWTs by this prefix
+const API_KEY_PREFIX = "vk_";
+
+export type UserRole = "admin" | "user";
+
+// Per-user limits; unset fields fall back to the server defaults
+export type QuotaOverrides = {
+  videosPerDay?: number;
+  concurrentJobs?: number;
+};
+
+export type AuthUser = {
+  id: string;
+  role: UserRole;
+  method: "jwt" | "api_key" | "disabled";
+  quotas: QuotaOverrides;
+  // Webhook of the API key, for requests that don't set their own
+  webhook?: WebhookTarget;
+};
+
+export type ApiKey = {
+  id: string;
+  name: string;
+  // User the key acts as, e.g. "service:renderer"
+  userId: string;
+  role: UserRole;
+  // First characters of the key, to recognise it in listings
+  prefix: string;
+  quotas: QuotaOverrides;
+  // Where jobs submitted with the key report their outcome; the secret is
+  // never shown again
+  webhookUrl?: string;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  user_id: string;
+  role: UserRole;
+  prefix: string;
+  videos_per_day: number | null;
+  concurrent_jobs: number | null;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  created_by: string;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+type AccessTokenPayload = { sub?: string; role?: string };
+
+// Only a hash of each key is stored; revoked keys are kept for auditing
+const getDb = withTables(
+  `
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    videos_per_day INTEGER,
+    concurrent_jobs INTEGER,
+    webhook_url TEXT,
+    webhook_secret TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+  );
+`,
+  { api_keys: { webhook_url: "TEXT", webhook_secret: "TEXT" } }
+);
+
+if (AUTH_DISABLED) {
+  console.warn("[AUTH] AUTH_DISABLED is set; the API is open to anyone");
+} else if (!AUTH_JWT_SECRET) {
+  console.warn("[AUTH] AUTH_JWT_SECRET is not set; only API keys are accepted");
+}
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    userId: row.user_id,
+    role: row.role,
+    prefix: row.prefix,
+    quotas: {
+      videosPerDay: row.videos_per_day ?? undefined,
+      concurrentJobs: row.concurrent_jobs ?? undefined,
+    },
+    webhookUrl: row.webhook_url ?? undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at ?? undefined,
+  };
+}
+
+// Sign a bearer token, e.g. for the token script or tests against a
+// deployment that shares the secret
+export function signAccessToken(
+  userId: string,
+  role: UserRole,
+  // Seconds or a duration such as "1h" or "7d"
+  expiresIn: number | string
+): string {
+  if (!AUTH_JWT_SECRET) throw new Error("AUTH_JWT_SECRET is not set");
+  return jwt.sign({ role } satisfies AccessTokenPayload, AUTH_JWT_SECRET, {
+    subject: userId,
+    expiresIn: expiresIn as jwt.SignOptions["expiresIn"],
+    // jsonwebtoken rejects these options when present but undefined
+    ...(AUTH_JWT_ISSUER && { issuer: AUTH_JWT_ISSUER }),
+    ...(AUTH_JWT_AUDIENCE && { audience: AUTH_JWT_AUDIENCE }),
+  });
+}
+
+function verifyAccessToken(token: string): AuthUser | undefined {
+  if (!AUTH_JWT_SECRET) return undefined;
+  try {
+    const payload = jwt.verify(token, AUTH_JWT_SECRET, {
+      algorithms: ["HS256"],
+      issuer: AUTH_JWT_ISSUER,
+      audience: AUTH_JWT_AUDIENCE,
+    }) as AccessTokenPayload;
+    if (!payload.sub) return undefined;
+    return {
+      id: payload.sub,
+      role: payload.role === "admin" ? "admin" : "user",
+      method: "jwt",
+      quotas: {},
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function verifyApiKey(key: string): AuthUser | undefined {
+  const db = getDb();
+  const row = db
+    .prepare("SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL")
+    .get(hashKey(key)) as ApiKeyRow | undefined;
+  if (!row) return undefined;
+  db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(
+    new Date().toISOString(),
+    row.id
+  );
+  const { userId, role, quotas } = toApiKey(row);
+  const webhook =
+    row.webhook_url && row.webhook_secret
+      ? { url: row.webhook_url, secret: row.webhook_secret }
+      : undefined;
+  return { id: userId, role, method: "api_key", quotas, webhook };
+}
+
+// Create a key; the plain key is only ever returned here
+export function createApiKey({
+  name,
+  userId,
+  role,
+  quotas,
+  webhook,
+  createdBy,
+}: {
+  name: string;
+  userId: string;
+  role: UserRole;
+  quotas: QuotaOverrides;
+  webhook?: WebhookTarget;
+  createdBy: string;
+}): { apiKey: ApiKey; key: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const row: ApiKeyRow = {
+    id: randomUUID(),
+    name,
+    user_id: userId,
+    role,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    videos_per_day: quotas.videosPerDay ?? null,
+    concurrent_jobs: quotas.concurrentJobs ?? null,
+    webhook_url: webhook?.url ?? null,
+    webhook_secret: webhook?.secret ?? null,
+    created_by: createdBy,
+    created_at: new Date().toISOString(),
+    last_used_at: null,
+  };
+  getDb()
+    .prepare(
+      `INSERT INTO api_keys (
+        id, name, user_id, role, key_hash, prefix, videos_per_day,
+        concurrent_jobs, webhook_url, webhook_secret, created_by, created_at
+      ) VALUES (
+        @id, @name, @user_id, @role, @key_hash, @prefix, @videos_per_day,
+        @concurrent_jobs, @webhook_url, @webhook_secret, @created_by,
+        @created_at
+      )`
+    )
+    .run({ ...row, key_hash: hashKey(key) });
+  console.log(`[AUTH] API key ${row.id} created for ${userId} by ${createdBy}`);
+  return { apiKey: toApiKey(row), key };
+}
+
+// Active keys, newest first
+export function listApiKeys(): ApiKey[] {
+  const rows = getDb()
+    .prepare(
+      "SELECT * FROM api_keys WHERE revoked_at IS NULL ORDER BY created_at DESC"
+    )
+    .all() as ApiKeyRow[];
+  return rows.map(toApiKey);
+}
+
+// Set or, with undefined, remove the webhook of an active key. Returns false
+// when the key is unknown or revoked.
+export function setApiKeyWebhook(
+  id: string,
+  webhook: WebhookTarget | undefined
+): boolean {
+  const { changes } = getDb()
+    .prepare(
+      "UPDATE api_keys SET webhook_url = ?, webhook_secret = ? WHERE id = ? AND revoked_at IS NULL"
+    )
+    .run(webhook?.url ?? null, webhook?.secret ?? null, id);
+  if (changes > 0) {
+    console.log(`[AUTH] API key ${id} webhook ${webhook ? "set" : "removed"}`);
+  }
+  return changes > 0;
+}
+
+// Returns false when the key is unknown or already revoked
+export function revokeApiKey(id: string): boolean {
+  const { changes } = getDb()
+    .prepare(
+      "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL"
+    )
+    .run(new Date().toISOString(), id);
+  if (changes > 0) console.log(`[AUTH] API key ${id} revoked`);
+  return changes > 0;
+}
+
+// Credentials from `Authorization: Bearer` or `X-API-Key`. They're never
+// taken from the URL, where access logs and Referer headers would keep them;
+// media and progress streams have their own short-lived signed URLs instead.
+function getCredentials(req: any): string | undefined {
+  const header: string | undefined = req.get("authorization");
+  if (header?.startsWith("Bearer ")) return header.slice("Bearer ".length);
+  const apiKey: string | undefined = req.get("x-api-key");
+  if (apiKey) return apiKey;
+  return undefined;
+}
+
+// Express middleware that sets req.user or answers 401
+export function authenticate(req: any, res: any, next: () => void) {
+  if (AUTH_DISABLED) {
+    req.user = {
+      id: "local",
+      role: "admin",
+      method: "disabled",
+      quotas: {},
+    } satisfies AuthUser;
+    return next();
+  }
+  if (req.query.access_token !== undefined) {
+    return res.status(401).json({
+      error:
+        "Credentials in the URL aren't accepted; send a header, or use the job's signed eventsUrl for EventSource",
+    });
+  }
+  const credentials = getCredentials(req);
+  if (!credentials) {
+    res.set("WWW-Authenticate", "Bearer");
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  const user = credentials.startsWith(API_KEY_PREFIX)
+    ? verifyApiKey(credentials)
+    : verifyAccessToken(credentials);
+  if (!user) {
+    res.set("WWW-Authenticate", 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: "Invalid or expired credentials" });
+  }
+  req.user = user;
+  next();
+}
+
+export function requireAdmin(req: any, res: any, next: () => void) {
+  if (req.user?.role !== "admin") {
+    return res.status(403).json({ error: "Admin role required" });
+  }
+  next();
+}
+
+// Admins see everything; other users only what they own
+export function canAccess(user: AuthUser, ownerId: string | undefined) {
+  return user.role === "admin" || ownerId === user.id;
+}
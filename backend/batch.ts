@@ -0,0 +1,364 @@
+import { parse } from "csv-parse/sync";
+import { createHash, randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { GenerationError, GenerationErrorCode } from "./errors";
+import {
+  GenerationOptions,
+  RenderSettingsSchema,
+  runGeneration,
+} from "./generation";
+import { recordGeneration } from "./history";
+import { getBrandKit } from "./brands";
+import { createLimiter } from "./jobs";
+import { getMusicTrack } from "./music";
+import { RenderSettingsInput } from "./settings";
+import { getStyle } from "./styles";
+import { createUsageMeter } from "./usage";
+
+export const BATCH_ROW_STATUSES = [
+  "pending",
+  "succeeded",
+  "failed",
+  "cancelled",
+] as const;
+
+export type BatchRowStatus = (typeof BATCH_ROW_STATUSES)[number];
+
+// Outcome of one input row, as written to the manifest
+export type BatchRowResult = {
+  // Identifies the row across runs, so a resumed batch can skip it
+  key: string;
+  // 1-based position among the file's rows, header and blank lines excluded
+  row: number;
+  prompt: string;
+  style?: string;
+  status: BatchRowStatus;
+  generationId?: string;
+  videos: string[];
+  voiceover?: string;
+  captions: string[];
+  summary?: string;
+  cost?: number;
+  error?: string;
+  errorCode?: GenerationErrorCode;
+  startedAt?: string;
+  completedAt?: string;
+};
+
+export type BatchManifest = {
+  input: string;
+  updatedAt: string;
+  rows: BatchRowResult[];
+};
+
+// Request options every row starts from; a row's own columns win
+export type BatchDefaults = {
+  style?: string;
+  storyboard?: boolean;
+  settings?: RenderSettingsInput;
+};
+
+// CSV cells are strings and empty cells mean "use the default"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    schema.optional()
+  );
+
+// One row of a CSV (with a header line) or JSONL file. Fields match the
+// generate-video request body.
+const BatchRowSchema = z.object({
+  // Stable name for the row; derived from its contents when omitted
+  id: optional(z.coerce.string()),
+  prompt: z.string().trim().min(1),
+  style: optional(z.string()),
+  storyboard: optional(
+    z.union([
+      z.boolean(),
+      z.enum(["true", "false"]).transform((value) => value === "true"),
+    ])
+  ),
+  // Brand kit name, or "none" to leave the row unbranded
+  brandKit: optional(
+    z.string().transform((value) => (value === "none" ? false : value))
+  ),
+  // Music track name, or "none" for no music
+  music: optional(
+    z.string().transform((value) => (value === "none" ? false : value))
+  ),
+  aspectRatio: optional(z.string()),
+  numberOfVideos: optional(z.coerce.number()),
+  durationSeconds: optional(z.coerce.number()),
+  textModel: optional(z.string()),
+  imageModel: optional(z.string()),
+  videoModel: optional(z.string()),
+});
+
+type BatchRow = z.infer<typeof BatchRowSchema>;
+
+// Rows of the input file; JSONL lines that aren't JSON are kept as errors so
+// the rest of the batch still runs
+async function readRows(file: string): Promise<unknown[]> {
+  const text = await fs.readFile(file, "utf8");
+  if (path.extname(file).toLowerCase() !== ".jsonl") {
+    return parse(text, {
+      columns: true,
+      bom: true,
+      trim: true,
+      skip_empty_lines: true,
+    });
+  }
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return new Error(`Invalid JSON: ${line.slice(0, 80)}`);
+      }
+    });
+}
+
+export const defaultManifestPath = (file: string) =>
+  path.join(
+    path.dirname(file),
+    `${path.basename(file, path.extname(file))}.manifest.json`
+  );
+
+async function readManifest(file: string): Promise<BatchManifest | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new Error(
+      `Unreadable batch manifest ${file}: ${
+        error instanceof Error ? error.message : error
+      }`
+    );
+  }
+}
+
+// Replace the manifest in one step so an interrupted write can't corrupt it
+async function writeManifest(file: string, manifest: BatchManifest) {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(manifest, null, 2));
+  await fs.rename(tmp, file);
+}
+
+const describeInvalid = (error: string | z.ZodError) =>
+  typeof error === "string"
+    ? error
+    : error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+
+const rowKey = (row: BatchRow) =>
+  row.id ??
+  createHash("sha256").update(JSON.stringify(row)).digest("hex").slice(0, 16);
+
+async function runRow(
+  row: BatchRow,
+  entry: BatchRowResult,
+  defaults: BatchDefaults,
+  options: GenerationOptions
+): Promise<BatchRowResult> {
+  const style = row.style ?? defaults.style;
+  const startedAt = new Date().toISOString();
+  const failed = (error: unknown): BatchRowResult => {
+    console.error(`[BATCH] Row ${entry.row} failed:`, error);
+    return {
+      ...entry,
+      style,
+      status: options.signal?.aborted ? "cancelled" : "failed",
+      error: error instanceof Error ? error.message : String(error),
+      errorCode: error instanceof GenerationError ? error.code : undefined,
+      startedAt,
+      completedAt: new Date().toISOString(),
+    };
+  };
+
+  if (style && !getStyle(style)) {
+    return failed(new Error(`Unknown style "${style}"`));
+  }
+  const brandKit = row.brandKit ?? options.brandKit;
+  if (brandKit && !getBrandKit(brandKit)) {
+    return failed(new Error(`Unknown brand kit "${brandKit}"`));
+  }
+  const music = row.music ?? options.music;
+  if (music && !getMusicTrack(music)) {
+    return failed(new Error(`Unknown music track "${music}"`));
+  }
+  const settings = RenderSettingsSchema.safeParse({
+    ...defaults.settings,
+    ...Object.fromEntries(
+      Object.entries({
+        aspectRatio: row.aspectRatio,
+        numberOfVideos: row.numberOfVideos,
+        durationSeconds: row.durationSeconds,
+        textModel: row.textModel,
+        imageModel: row.imageModel,
+        videoModel: row.videoModel,
+      }).filter(([, value]) => value !== undefined)
+    ),
+  });
+  if (!settings.success) {
+    return failed(new Error(`Invalid settings: ${settings.error.message}`));
+  }
+
+  // Tags stored artifacts and usage like a single CLI run
+  const generationId = randomUUID();
+  console.log(`[BATCH] Row ${entry.row}: generating "${row.prompt}"`);
+  try {
+    const { result, output } = await runGeneration(
+      row.prompt,
+      {
+        ...options,
+        style,
+        storyboard: row.storyboard ?? defaults.storyboard,
+        settings: settings.data,
+        brandKit,
+        music,
+        usage: createUsageMeter({ jobId: generationId }),
+      },
+      generationId
+    );
+    if (!result) {
+      // Nobody is there to answer a clarifying question
+      throw new Error(
+        typeof output === "string"
+          ? `No video was generated: ${output}`
+          : "No video was generated"
+      );
+    }
+    recordGeneration({
+      id: generationId,
+      prompt: row.prompt,
+      result,
+      createdAt: startedAt,
+    });
+    console.log(`[BATCH] Row ${entry.row}: done (${generationId})`);
+    return {
+      ...entry,
+      style: result.style,
+      status: "succeeded",
+      generationId,
+      videos: result.finalVideoPaths,
+      voiceover: result.voiceoverPath,
+      captions: (result.captions ?? []).flatMap((files) => [
+        files.srtPath,
+        files.vttPath,
+      ]),
+      summary: result.summary,
+      cost: result.usage?.totalCost,
+      error: undefined,
+      errorCode: undefined,
+      startedAt,
+      completedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    return failed(error);
+  }
+}
+
+// Generate a video for each row of a CSV or JSONL file, `concurrency` rows at
+// a time. Progress is saved to the manifest after every row; running the same
+// file again skips rows the manifest lists as succeeded.
+export async function runBatch({
+  file,
+  manifestPath = defaultManifestPath(file),
+  concurrency,
+  defaults,
+  options,
+}: {
+  file: string;
+  manifestPath?: string;
+  concurrency: number;
+  defaults: BatchDefaults;
+  options: GenerationOptions;
+}): Promise<BatchManifest & { manifestPath: string; skipped: number }> {
+  const previous = new Map(
+    ((await readManifest(manifestPath))?.rows ?? []).map((entry) => [
+      entry.key,
+      entry,
+    ])
+  );
+
+  // Identical rows get numbered keys so each still runs once
+  const seen = new Map<string, number>();
+  const rows = (await readRows(file)).map((value, index) => {
+    const parsed =
+      value instanceof Error
+        ? { success: false as const, error: value.message }
+        : BatchRowSchema.safeParse(value);
+    const invalid = parsed.success ? undefined : describeInvalid(parsed.error);
+    if (invalid)
+      console.error(`[BATCH] Row ${index + 1} is invalid: ${invalid}`);
+    const base = parsed.success ? rowKey(parsed.data) : `invalid-${index + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    const key = count > 1 ? `${base}-${count}` : base;
+
+    const prompt = parsed.success ? parsed.data.prompt : "";
+    const done = previous.get(key);
+    const entry: BatchRowResult =
+      done?.status === "succeeded"
+        ? { ...done, row: index + 1 }
+        : {
+            key,
+            row: index + 1,
+            prompt,
+            style: parsed.success ? parsed.data.style : undefined,
+            status: parsed.success ? "pending" : "failed",
+            videos: [],
+            captions: [],
+            error: invalid,
+          };
+    return { row: parsed.success ? parsed.data : undefined, entry };
+  });
+
+  const manifest: BatchManifest = {
+    input: path.resolve(file),
+    updatedAt: new Date().toISOString(),
+    rows: rows.map(({ entry }) => entry),
+  };
+  // Writes are queued so concurrent rows never interleave them. A failed
+  // write is logged rather than stopping the batch; the next one writes the
+  // whole manifest again.
+  let saving = Promise.resolve();
+  const save = () => {
+    manifest.updatedAt = new Date().toISOString();
+    saving = saving
+      .then(() => writeManifest(manifestPath, manifest))
+      .catch((error) =>
+        console.error(`[BATCH] Could not save ${manifestPath}:`, error)
+      );
+    return saving;
+  };
+  await save();
+
+  const skipped = manifest.rows.filter(
+    (entry) => entry.status === "succeeded"
+  ).length;
+  console.log(
+    `[BATCH] ${rows.length} rows in ${file}, ${skipped} already succeeded, ${concurrency} at a time`
+  );
+
+  const limiter = createLimiter(concurrency);
+  await Promise.all(
+    rows.map(({ row, entry }, index) => {
+      if (!row || entry.status === "succeeded") return;
+      return limiter.run(async () => {
+        // Rows still waiting when the batch is cancelled stay pending
+        if (options.signal?.aborted) return;
+        manifest.rows[index] = await runRow(row, entry, defaults, options);
+        await save();
+      });
+    })
+  );
+  await saving;
+
+  return { ...manifest, manifestPath, skipped };
+}
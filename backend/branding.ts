@@ -0,0 +1,307 @@
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import { BrandKit, logoPath } from "./brands";
+import type { CaptionWindow } from "./captions";
+import {
+  VideoEncoding,
+  concatVideos,
+  overlayVideo,
+  renderCard,
+  validateVideo,
+} from "./ffmpeg";
+
+// Text sizes as a share of the frame height
+const WATERMARK_TEXT_SIZE = 0.035;
+const CTA_TEXT_SIZE = 0.05;
+const CARD_TITLE_SIZE = 0.08;
+const CARD_TEXT_SIZE = 0.055;
+const CARD_SUBTEXT_SIZE = 0.035;
+
+// Logo width on an end card as a share of the frame width
+const CARD_LOGO_SIZE = 0.35;
+
+// Numpad-style ASS alignment for each corner
+const ALIGNMENTS = {
+  "top-left": 7,
+  "top-right": 9,
+  "bottom-left": 1,
+  "bottom-right": 3,
+} as const;
+
+type AssStyle = {
+  name: string;
+  size: number;
+  color: string;
+  alignment: number;
+  marginV: number;
+  // Draw the text on an opaque box of this color instead of with an outline
+  box?: string;
+};
+
+type AssLine = { style: string; start: number; end: number; text: string };
+
+// "#1a2b3c" at the given opacity -> "&H003C2B1A" (ASS is alpha, blue, green,
+// red, with 00 opaque)
+function assColor(hex: string, opacity = 1) {
+  const [r, g, b] = [1, 3, 5].map((i) => hex.slice(i, i + 2));
+  const alpha = Math.round((1 - opacity) * 255)
+    .toString(16)
+    .padStart(2, "0");
+  return `&H${alpha}${b}${g}${r}`.toUpperCase();
+}
+
+function assTime(seconds: number) {
+  const cs = Math.round(seconds * 100);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(cs / 360000)}:${pad(Math.floor(cs / 6000) % 60)}:${pad(
+    Math.floor(cs / 100) % 60
+  )}.${pad(cs % 100)}`;
+}
+
+// Brand text is plain text: no override tags, line breaks kept
+const assText = (text: string) =>
+  text.replace(/[{}\\]/g, "").replace(/\r?\n/g, "\\N");
+
+// ASS subtitle file positioning the given lines on a width x height frame
+function toAss(
+  { width, height }: { width: number; height: number },
+  font: string,
+  styles: AssStyle[],
+  lines: AssLine[]
+) {
+  const margin = Math.round(width * 0.04);
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    ...styles.map((style) =>
+      [
+        `Style: ${style.name}`,
+        font,
+        Math.round(style.size * height),
+        style.color,
+        style.color,
+        style.box ?? "&H80000000",
+        "&H80000000",
+        -1,
+        0,
+        0,
+        0,
+        100,
+        100,
+        0,
+        0,
+        style.box ? 3 : 1,
+        style.box ? Math.round(height * 0.012) : 2,
+        style.box ? 0 : 1,
+        style.alignment,
+        margin,
+        margin,
+        style.marginV,
+        1,
+      ].join(",")
+    ),
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...lines.map(
+      (line) =>
+        `Dialogue: 0,${assTime(line.start)},${assTime(line.end)},${
+          line.style
+        },,0,0,0,,${line.text}`
+    ),
+    "",
+  ].join("\n");
+}
+
+// Watermark text (when there's no logo) and the call to action with the URL
+// over the last seconds
+function overlayAss(
+  kit: BrandKit,
+  frame: { width: number; height: number },
+  durationSeconds: number
+) {
+  const { height } = frame;
+  const styles: AssStyle[] = [
+    {
+      name: "Watermark",
+      size: WATERMARK_TEXT_SIZE,
+      color: assColor(kit.colors.text, kit.watermark.opacity),
+      alignment: ALIGNMENTS[kit.watermark.position],
+      marginV: Math.round(height * 0.03),
+    },
+    {
+      name: "Cta",
+      size: CTA_TEXT_SIZE,
+      color: assColor(kit.colors.text),
+      // Centered, clear of burned-in captions and corner watermarks
+      alignment: 5,
+      marginV: 0,
+      box: assColor(kit.colors.primary),
+    },
+  ];
+  const lines: AssLine[] = [];
+  if (!kit.logo) {
+    lines.push({
+      style: "Watermark",
+      start: 0,
+      end: durationSeconds,
+      text: assText(kit.displayName),
+    });
+  }
+  if (kit.cta) {
+    const url = kit.url
+      ? `\\N{\\fs${Math.round(height * CARD_SUBTEXT_SIZE)}}${assText(kit.url)}`
+      : "";
+    lines.push({
+      style: "Cta",
+      start: Math.max(0, durationSeconds - kit.cta.durationSeconds),
+      end: durationSeconds,
+      text: `{\\fad(300,0)}${assText(kit.cta.text)}${url}`,
+    });
+  }
+  return toAss(frame, kit.font, styles, lines);
+}
+
+// Brand name (without a logo), closing line and URL on the end card
+function cardAss(kit: BrandKit, encoding: VideoEncoding) {
+  const { height } = encoding;
+  const endCard = kit.endCard!;
+  const color = assColor(kit.colors.text);
+  const styles: AssStyle[] = [
+    { name: "Title", size: CARD_TITLE_SIZE, color, alignment: 5, marginV: 0 },
+    {
+      name: "Text",
+      size: CARD_TEXT_SIZE,
+      color,
+      alignment: 2,
+      marginV: Math.round(height * 0.28),
+    },
+    {
+      name: "Subtext",
+      size: CARD_SUBTEXT_SIZE,
+      color,
+      alignment: 2,
+      marginV: Math.round(height * 0.2),
+    },
+  ];
+  const end = endCard.durationSeconds;
+  const lines: AssLine[] = [
+    { style: "Text", start: 0, end, text: assText(endCard.text) },
+  ];
+  if (!kit.logo) {
+    lines.push({
+      style: "Title",
+      start: 0,
+      end,
+      text: assText(kit.displayName),
+    });
+  }
+  const subtext = endCard.subtext ?? kit.url;
+  if (subtext) {
+    lines.push({ style: "Subtext", start: 0, end, text: assText(subtext) });
+  }
+  return toAss(encoding, kit.font, styles, lines);
+}
+
+// Suffix that keeps files derived from the same video apart across jobs
+const uniqueSuffix = () => randomUUID().slice(0, 8);
+
+// Brand a video with the kit: logo (or name) watermark and call to action
+// drawn over it, then the end card before and/or after it. Writes the result
+// next to the video and reports where the original now sits in it.
+export async function applyBrandKit({
+  videoPath,
+  kit,
+  encoding,
+  signal,
+}: {
+  videoPath: string;
+  kit: BrandKit;
+  // Output format once end cards are joined on
+  encoding: VideoEncoding;
+  signal?: AbortSignal;
+}): Promise<{ videoPath: string; window: CaptionWindow }> {
+  const info = await validateVideo(videoPath, signal);
+  const frame = { width: info.video!.width, height: info.video!.height };
+  const durationSeconds = info.durationSeconds;
+  const basePath = videoPath.replace(/\.mp4$/, `_${uniqueSuffix()}`);
+  const logo = logoPath(kit);
+  const workingFiles = [`${basePath}_overlay.ass`];
+
+  try {
+    await fs.writeFile(
+      workingFiles[0],
+      overlayAss(kit, frame, durationSeconds)
+    );
+    const overlaidPath = `${basePath}_branded.mp4`;
+    await overlayVideo(videoPath, overlaidPath, {
+      image: logo
+        ? {
+            imagePath: logo,
+            position: kit.watermark.position,
+            width: Math.round(frame.width * kit.watermark.size),
+            opacity: kit.watermark.opacity,
+            margin: Math.round(frame.width * 0.03),
+          }
+        : undefined,
+      subtitlesPath: workingFiles[0],
+      signal,
+    });
+
+    const endCard = kit.endCard;
+    if (!endCard || (!endCard.intro && !endCard.outro)) {
+      return {
+        videoPath: overlaidPath,
+        window: { startSeconds: 0, durationSeconds },
+      };
+    }
+
+    const cardAssPath = `${basePath}_card.ass`;
+    const cardPath = `${basePath}_card.mp4`;
+    workingFiles.push(overlaidPath, cardAssPath, cardPath);
+    await fs.writeFile(cardAssPath, cardAss(kit, encoding));
+    await renderCard(cardPath, {
+      color: kit.colors.primary,
+      durationSeconds: endCard.durationSeconds,
+      encoding,
+      image: logo
+        ? {
+            imagePath: logo,
+            position: "center",
+            width: Math.round(encoding.width * CARD_LOGO_SIZE),
+            opacity: 1,
+            margin: 0,
+          }
+        : undefined,
+      subtitlesPath: cardAssPath,
+      signal,
+    });
+
+    const brandedPath = `${basePath}_carded.mp4`;
+    await concatVideos(
+      [
+        ...(endCard.intro ? [cardPath] : []),
+        overlaidPath,
+        ...(endCard.outro ? [cardPath] : []),
+      ],
+      brandedPath,
+      { encoding, transition: { type: "cut", durationSeconds: 0 }, signal }
+    );
+    return {
+      videoPath: brandedPath,
+      window: {
+        startSeconds: endCard.intro ? endCard.durationSeconds : 0,
+        durationSeconds,
+      },
+    };
+  } finally {
+    await Promise.all(workingFiles.map((file) => fs.rm(file, { force: true })));
+  }
+}
@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+
+// One JSON or YAML file per brand kit, with logos stored next to them
+export const BRANDS_DIR =
+  process.env.BRANDS_DIR || path.join(process.cwd(), "brands");
+
+// Kit applied to styles that are branded by default
+const DEFAULT_BRAND_KIT = process.env.DEFAULT_BRAND_KIT || "default";
+
+const BRAND_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export const LOGO_CONTENT_TYPES: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+};
+
+export const OVERLAY_POSITIONS = [
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+] as const;
+
+const Color = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colors are hex values like #1a2b3c");
+
+export const BrandKitSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9-]*$/,
+      "Brand kit names use lowercase letters, digits and dashes"
+    ),
+  // Brand name as shown to viewers; the watermark when there's no logo
+  displayName: z.string().min(1),
+  // PNG or JPEG file, relative to the brands directory
+  logo: z.string().optional(),
+  colors: z
+    .object({
+      // End card background and call-to-action box
+      primary: Color.default("#111111"),
+      // Text on the primary color
+      text: Color.default("#ffffff"),
+    })
+    .default({}),
+  // Font for overlays, as known to fontconfig
+  font: z.string().default("Helvetica"),
+  url: z.string().optional(),
+  watermark: z
+    .object({
+      position: z.enum(OVERLAY_POSITIONS).default("bottom-right"),
+      opacity: z.number().min(0.1).max(1).default(0.8),
+      // Logo width as a share of the video width
+      size: z.number().min(0.05).max(0.5).default(0.15),
+    })
+    .default({}),
+  // Card with the logo and a closing line, before and/or after the video
+  endCard: z
+    .object({
+      text: z.string().min(1),
+      subtext: z.string().optional(),
+      durationSeconds: z.number().min(1).max(6).default(3),
+      intro: z.boolean().default(false),
+      outro: z.boolean().default(true),
+    })
+    .optional(),
+  // Call to action shown over the last seconds of the video, with the URL
+  cta: z
+    .object({
+      text: z.string().min(1),
+      durationSeconds: z.number().min(1).max(10).default(3),
+    })
+    .optional(),
+});
+
+export type BrandKit = z.infer<typeof BrandKitSchema>;
+
+type BrandKitEntry = { kit: BrandKit; filePath: string };
+
+const brandKits = new Map<string, BrandKitEntry>();
+
+function loadBrandKits() {
+  if (!fs.existsSync(BRANDS_DIR)) {
+    console.log(`[BRANDS] No brands directory at ${BRANDS_DIR}`);
+    return;
+  }
+  for (const file of fs.readdirSync(BRANDS_DIR).sort()) {
+    if (!BRAND_FILE_EXTENSIONS.includes(path.extname(file))) continue;
+    const filePath = path.join(BRANDS_DIR, file);
+    try {
+      const contents = fs.readFileSync(filePath, "utf8");
+      const kit = BrandKitSchema.parse(
+        file.endsWith(".json") ? JSON.parse(contents) : YAML.parse(contents)
+      );
+      if (brandKits.has(kit.name)) {
+        throw new Error(`Duplicate brand kit name "${kit.name}"`);
+      }
+      if (kit.logo && !fs.existsSync(logoPath(kit)!)) {
+        throw new Error(`Logo not found: ${kit.logo}`);
+      }
+      brandKits.set(kit.name, { kit, filePath });
+    } catch (error) {
+      console.error(`[BRANDS] Skipping ${file}:`, error);
+    }
+  }
+  console.log(
+    `[BRANDS] Loaded brand kits: ${[...brandKits.keys()].join(", ")}`
+  );
+}
+
+loadBrandKits();
+
+export function listBrandKits(): BrandKit[] {
+  return [...brandKits.values()].map((entry) => entry.kit);
+}
+
+export function getBrandKit(name: string): BrandKit | undefined {
+  return brandKits.get(name)?.kit;
+}
+
+// Absolute path of the kit's logo
+export function logoPath(kit: BrandKit): string | undefined {
+  return kit.logo && path.resolve(BRANDS_DIR, kit.logo);
+}
+
+// Logos uploaded through the API are named after their kit; others may be
+// shared and are left alone when the kit changes
+const ownsLogo = (kit: BrandKit) =>
+  !!kit.logo && path.basename(kit.logo).startsWith(`${kit.name}-logo.`);
+
+// Kit a generation is branded with: the requested one, none when the request
+// opts out with false, otherwise the default kit for styles branded by default
+export function resolveBrandKit(
+  requested: string | false | undefined,
+  styleBranding: boolean
+): BrandKit | undefined {
+  if (requested === false) return undefined;
+  if (requested) {
+    const kit = getBrandKit(requested);
+    if (!kit) throw new Error(`Unknown brand kit "${requested}"`);
+    return kit;
+  }
+  if (!styleBranding) return undefined;
+  const kit = getBrandKit(DEFAULT_BRAND_KIT);
+  if (!kit) {
+    console.warn(
+      `[BRANDS] Default brand kit "${DEFAULT_BRAND_KIT}" not found; skipping branding`
+    );
+  }
+  return kit;
+}
+
+// Create or replace a brand kit, keeping the format of an existing file
+export async function saveBrandKit(kit: BrandKit) {
+  const filePath =
+    brandKits.get(kit.name)?.filePath ??
+    path.join(BRANDS_DIR, `${kit.name}.json`);
+  const contents = filePath.endsWith(".json")
+    ? `${JSON.stringify(kit, null, 2)}\n`
+    : YAML.stringify(kit);
+  await fs.promises.mkdir(BRANDS_DIR, { recursive: true });
+  await fs.promises.writeFile(filePath, contents);
+  brandKits.set(kit.name, { kit, filePath });
+  console.log(`[BRANDS] Saved ${kit.name} to ${filePath}`);
+}
+
+// Store an uploaded logo next to the kit and point the kit at it
+export async function saveBrandLogo(
+  kit: BrandKit,
+  image: Buffer,
+  contentType: string
+): Promise<BrandKit> {
+  const file = `${kit.name}-logo${LOGO_CONTENT_TYPES[contentType]}`;
+  await fs.promises.mkdir(BRANDS_DIR, { recursive: true });
+  await fs.promises.writeFile(path.join(BRANDS_DIR, file), image);
+  if (ownsLogo(kit) && kit.logo !== file) {
+    await fs.promises.rm(logoPath(kit)!, { force: true });
+  }
+  const updated = { ...kit, logo: file };
+  await saveBrandKit(updated);
+  return updated;
+}
+
+export async function deleteBrandKit(name: string): Promise<boolean> {
+  const entry = brandKits.get(name);
+  if (!entry) return false;
+  await fs.promises.rm(entry.filePath, { force: true });
+  if (ownsLogo(entry.kit)) {
+    await fs.promises.rm(logoPath(entry.kit)!, { force: true });
+  }
+  brandKits.delete(name);
+  console.log(`[BRANDS] Deleted ${name}`);
+  return true;
+}
@@ -0,0 +1,149 @@
+import fs from "fs/promises";
+import { randomUUID } from "crypto";
+import { burnSubtitles, probeMedia } from "./ffmpeg";
+
+// Veo clips run about 8 seconds; used when ffprobe can't read the duration
+const DEFAULT_DURATION_SECONDS = 8;
+
+// Longest caption shown at once, in words
+const MAX_WORDS_PER_CAPTION = 8;
+
+export type CaptionSegment = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+// Part of a video the narration plays over, e.g. between branded end cards
+export type CaptionWindow = {
+  startSeconds: number;
+  durationSeconds: number;
+};
+
+export type CaptionFiles = {
+  videoPath: string;
+  srtPath: string;
+  vttPath: string;
+};
+
+// ASS style overrides passed to ffmpeg's subtitles filter when burning in,
+// for styles that don't define their own
+const DEFAULT_CAPTION_STYLE =
+  "Fontname=Helvetica,Fontsize=18,Outline=2,Shadow=1,Alignment=2,MarginV=40";
+
+// Break narration into sentence-sized captions, splitting long sentences
+function chunkNarration(narration: string): string[] {
+  const sentences = narration
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  for (const sentence of sentences) {
+    const words = sentence.split(" ");
+    for (let i = 0; i < words.length; i += MAX_WORDS_PER_CAPTION) {
+      chunks.push(words.slice(i, i + MAX_WORDS_PER_CAPTION).join(" "));
+    }
+  }
+  return chunks;
+}
+
+// Spread the captions across the clip from startSeconds on, giving each a
+// share of the time proportional to its length
+export function splitCaptions(
+  narration: string,
+  durationSeconds: number,
+  startSeconds = 0
+): CaptionSegment[] {
+  const chunks = chunkNarration(narration);
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  let start = startSeconds;
+  return chunks.map((text) => {
+    const end = start + (text.length / totalChars) * durationSeconds;
+    const segment = { start, end, text };
+    start = end;
+    return segment;
+  });
+}
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(
+    Math.floor(ms / 60000) % 60
+  )}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(segments: CaptionSegment[]): string {
+  return segments
+    .map(
+      (segment, i) =>
+        `${i + 1}\n${formatTimestamp(segment.start, ",")} --> ${formatTimestamp(
+          segment.end,
+          ","
+        )}\n${segment.text}\n`
+    )
+    .join("\n");
+}
+
+export function toWebVtt(segments: CaptionSegment[]): string {
+  return `WEBVTT\n\n${segments
+    .map(
+      (segment) =>
+        `${formatTimestamp(segment.start, ".")} --> ${formatTimestamp(
+          segment.end,
+          "."
+        )}\n${segment.text}\n`
+    )
+    .join("\n")}`;
+}
+
+async function probeDuration(videoPath: string): Promise<number> {
+  try {
+    const { durationSeconds } = await probeMedia(videoPath);
+    if (durationSeconds > 0) return durationSeconds;
+  } catch (error) {
+    console.error(`[CAPTIONS] Failed to probe ${videoPath}:`, error);
+  }
+  return DEFAULT_DURATION_SECONDS;
+}
+
+// Suffix that keeps files derived from the same video apart across jobs
+const uniqueSuffix = () => randomUUID().slice(0, 8);
+
+// Write SRT and WebVTT sidecars next to the video, timed to its duration or
+// to the window the narration plays over
+export async function writeCaptions(
+  videoPath: string,
+  narration: string,
+  window?: CaptionWindow
+): Promise<CaptionFiles> {
+  const segments = window
+    ? splitCaptions(narration, window.durationSeconds, window.startSeconds)
+    : splitCaptions(narration, await probeDuration(videoPath));
+  const basePath = videoPath.replace(/\.mp4$/, `_${uniqueSuffix()}`);
+  const srtPath = `${basePath}.srt`;
+  const vttPath = `${basePath}.vtt`;
+  await fs.writeFile(srtPath, toSrt(segments));
+  await fs.writeFile(vttPath, toWebVtt(segments));
+  return { videoPath, srtPath, vttPath };
+}
+
+// Render the SRT captions into a new copy of the video using the given look
+export async function burnCaptions(
+  videoPath: string,
+  srtPath: string,
+  captionStyle = DEFAULT_CAPTION_STYLE,
+  signal?: AbortSignal
+): Promise<string> {
+  const captionedPath = videoPath.replace(
+    /\.mp4$/,
+    `_captioned_${uniqueSuffix()}.mp4`
+  );
+  await burnSubtitles(videoPath, srtPath, captionedPath, {
+    forceStyle: captionStyle,
+    signal,
+  });
+  return captionedPath;
+}
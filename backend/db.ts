@@ -0,0 +1,52 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// SQLite file shared by generation history, API keys and quota usage
+const DATABASE_PATH =
+  process.env.DATABASE_PATH || path.join(process.cwd(), "data", "backend.db");
+
+let db: Database.Database | undefined;
+
+// Opened on first use so entry points that never touch it don't create it
+function getDb(): Database.Database {
+  if (!db) {
+    fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+    db = new Database(DATABASE_PATH);
+    db.pragma("journal_mode = WAL");
+    console.log(`[DB] Using ${DATABASE_PATH}`);
+  }
+  return db;
+}
+
+// Columns added to a table after it first shipped, with their definitions
+type AddedColumns = Record<string, Record<string, string>>;
+
+// Accessor for the database that creates a module's tables on first call and
+// adds columns that databases created by older versions lack
+export function withTables(
+  schema: string,
+  addedColumns: AddedColumns = {}
+): () => Database.Database {
+  let created = false;
+  return () => {
+    const db = getDb();
+    if (!created) {
+      db.exec(schema);
+      for (const [table, columns] of Object.entries(addedColumns)) {
+        const existing = new Set(
+          (db.pragma(`table_info(${table})`) as { name: string }[]).map(
+            (column) => column.name
+          )
+        );
+        for (const [column, definition] of Object.entries(columns)) {
+          if (existing.has(column)) continue;
+          db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+          console.log(`[DB] Added ${table}.${column}`);
+        }
+      }
+      created = true;
+    }
+    return db;
+  };
+}
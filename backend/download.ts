@@ -0,0 +1,72 @@
+import { createHash } from "crypto";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+
+// MD5 the server vouches for, base64 encoded: Content-MD5, or the md5 entry of
+// Google Cloud Storage's x-goog-hash ("crc32c=...,md5=...")
+function expectedMd5(headers: Headers): string | undefined {
+  const contentMd5 = headers.get("content-md5");
+  if (contentMd5) return contentMd5;
+  return headers
+    .get("x-goog-hash")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .find((entry) => entry.startsWith("md5="))
+    ?.slice("md5=".length);
+}
+
+// Byte count the body should have; unknown when it arrives compressed, since
+// fetch hands back the decoded bytes
+function expectedSize(headers: Headers): number | undefined {
+  const encoding = headers.get("content-encoding");
+  if (encoding && encoding !== "identity") return undefined;
+  const length = Number(headers.get("content-length"));
+  return Number.isFinite(length) && length > 0 ? length : undefined;
+}
+
+// Stream a response body to a file, waiting for each write to drain and for
+// the file to be flushed. The bytes written are checked against Content-Length
+// and any MD5 the server sent. A download that fails, is aborted or doesn't
+// check out leaves no file behind. Returns the number of bytes written.
+export async function downloadToFile(
+  response: Response,
+  filePath: string,
+  signal?: AbortSignal
+): Promise<number> {
+  if (!response.body) {
+    throw new Error("No response body");
+  }
+  const size = expectedSize(response.headers);
+  const md5 = expectedMd5(response.headers);
+  const hash = md5 ? createHash("md5") : undefined;
+  let bytes = 0;
+
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          bytes += chunk.length;
+          hash?.update(chunk);
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath),
+      { signal }
+    );
+    if (size !== undefined && bytes !== size) {
+      throw new Error(`Incomplete download: got ${bytes} of ${size} bytes`);
+    }
+    const digest = hash?.digest("base64");
+    if (digest && digest !== md5) {
+      throw new Error(`Checksum mismatch: expected MD5 ${md5}, got ${digest}`);
+    }
+  } catch (error) {
+    await fs.rm(filePath, { force: true });
+    throw error;
+  }
+  return bytes;
+}
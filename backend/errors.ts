@@ -0,0 +1,23 @@
+// Why a generation stopped, so callers can tell a safety rejection from a
+// provider failure, a timeout or a user cancelling the job
+export const GENERATION_ERROR_CODES = [
+  "moderation",
+  "operation_failed",
+  "no_videos",
+  "timeout",
+  "cancelled",
+] as const;
+
+export type GenerationErrorCode = (typeof GENERATION_ERROR_CODES)[number];
+
+export class GenerationError extends Error {
+  constructor(
+    readonly code: GenerationErrorCode,
+    message: string,
+    // Structured context for clients, e.g. the moderation verdict
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "GenerationError";
+  }
+}
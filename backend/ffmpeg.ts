@@ -0,0 +1,766 @@
+import { spawn } from "child_process";
+import { z } from "zod";
+import type { RenderSettings } from "./settings";
+
+// Binaries to run; set these when ffmpeg isn't on the PATH
+const TOOL_PATHS = {
+  ffmpeg: process.env.FFMPEG_PATH || "ffmpeg",
+  ffprobe: process.env.FFPROBE_PATH || "ffprobe",
+};
+
+type Tool = keyof typeof TOOL_PATHS;
+
+// Bitrate of re-encoded video, e.g. "4M"
+const VIDEO_BITRATE = process.env.VIDEO_BITRATE || "4M";
+const AUDIO_BITRATE = "192k";
+const FRAME_RATE = 24;
+const AUDIO_SAMPLE_RATE = 48000;
+
+// EBU R128 loudness the final mix is normalized to: integrated loudness in
+// LUFS (-14 suits the social platforms), true peak in dBTP and loudness range
+const LOUDNESS_TARGET = {
+  integrated: Number(process.env.LOUDNESS_TARGET_LUFS) || -14,
+  truePeak: -1,
+  range: 11,
+};
+
+// How much of a failed command's stderr ends up in the error
+const STDERR_TAIL_CHARS = 2000;
+
+// Longest a single ffmpeg or ffprobe run may take before it is killed
+const FFMPEG_TIMEOUT_SECONDS =
+  Number(process.env.FFMPEG_TIMEOUT_SECONDS) || 600;
+
+export type AspectRatio = RenderSettings["aspectRatio"];
+
+// Frame size videos are re-encoded to; Veo renders 720p
+const OUTPUT_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  "16:9": { width: 1280, height: 720 },
+  "9:16": { width: 720, height: 1280 },
+  "1:1": { width: 720, height: 720 },
+};
+
+export type VideoEncoding = {
+  width: number;
+  height: number;
+  frameRate: number;
+  videoBitrate: string;
+  audioBitrate: string;
+};
+
+export function outputEncoding(aspectRatio: AspectRatio): VideoEncoding {
+  return {
+    ...OUTPUT_SIZES[aspectRatio],
+    frameRate: FRAME_RATE,
+    videoBitrate: VIDEO_BITRATE,
+    audioBitrate: AUDIO_BITRATE,
+  };
+}
+
+export const TRANSITION_TYPES = ["cut", "crossfade"] as const;
+
+// How consecutive clips are joined
+export type Transition = {
+  type: (typeof TRANSITION_TYPES)[number];
+  durationSeconds: number;
+};
+
+// Run ffmpeg or ffprobe with an argument list (no shell involved) and resolve
+// with its stdout. Failures carry the end of stderr; aborting or running past
+// the timeout kills the process.
+function runTool(
+  tool: Tool,
+  args: string[],
+  signal?: AbortSignal
+): Promise<string> {
+  const timeout = AbortSignal.timeout(FFMPEG_TIMEOUT_SECONDS * 1000);
+  return new Promise((resolve, reject) => {
+    const child = spawn(TOOL_PATHS[tool], args, {
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      // Output of a killed run is thrown away, so don't wait for a clean exit
+      killSignal: "SIGKILL",
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_CHARS);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        reject(
+          new Error(
+            `${tool} not found at "${
+              TOOL_PATHS[tool]
+            }"; install it or set ${tool.toUpperCase()}_PATH`
+          )
+        );
+      } else if (timeout.aborted && !signal?.aborted) {
+        reject(new Error(`${tool} timed out after ${FFMPEG_TIMEOUT_SECONDS}s`));
+      } else {
+        reject(error);
+      }
+    });
+    child.on("close", (code, killSignal) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout).toString());
+      } else {
+        reject(
+          new Error(
+            `${tool} exited with ${code ?? killSignal}: ${stderr.trim()}`
+          )
+        );
+      }
+    });
+  });
+}
+
+const ffmpeg = (args: string[], signal?: AbortSignal) =>
+  runTool(
+    "ffmpeg",
+    ["-hide_banner", "-nostdin", "-loglevel", "error", "-y", ...args],
+    signal
+  );
+
+const ProbeSchema = z.object({
+  streams: z
+    .array(
+      z.object({
+        codec_type: z.string(),
+        codec_name: z.string().default("unknown"),
+        width: z.number().optional(),
+        height: z.number().optional(),
+        r_frame_rate: z.string().optional(),
+        sample_rate: z.coerce.number().optional(),
+        channels: z.number().optional(),
+      })
+    )
+    .default([]),
+  format: z.object({
+    format_name: z.string(),
+    duration: z.coerce.number().optional(),
+    size: z.coerce.number().optional(),
+    bit_rate: z.coerce.number().optional(),
+  }),
+});
+
+export type MediaInfo = {
+  format: string;
+  durationSeconds: number;
+  sizeBytes: number;
+  bitrate?: number;
+  video?: { codec: string; width: number; height: number; frameRate: number };
+  audio?: { codec: string; sampleRate: number; channels: number };
+};
+
+// "30000/1001" -> 29.97
+const parseRate = (rate = "0/1") => {
+  const [num, den] = rate.split("/").map(Number);
+  return den ? num / den : num || 0;
+};
+
+// Container, duration and first video and audio stream of a media file
+export async function probeMedia(
+  filePath: string,
+  signal?: AbortSignal
+): Promise<MediaInfo> {
+  const stdout = await runTool(
+    "ffprobe",
+    [
+      "-v",
+      "error",
+      "-print_format",
+      "json",
+      "-show_format",
+      "-show_streams",
+      filePath,
+    ],
+    signal
+  );
+  const { streams, format } = ProbeSchema.parse(JSON.parse(stdout));
+  const video = streams.find((stream) => stream.codec_type === "video");
+  const audio = streams.find((stream) => stream.codec_type === "audio");
+  return {
+    format: format.format_name,
+    durationSeconds: format.duration ?? 0,
+    sizeBytes: format.size ?? 0,
+    bitrate: format.bit_rate,
+    video: video && {
+      codec: video.codec_name,
+      width: video.width ?? 0,
+      height: video.height ?? 0,
+      frameRate: parseRate(video.r_frame_rate),
+    },
+    audio: audio && {
+      codec: audio.codec_name,
+      sampleRate: audio.sample_rate ?? 0,
+      channels: audio.channels ?? 0,
+    },
+  };
+}
+
+// Probe a file that should be a video, failing unless it has a video stream
+// with frames and a duration
+export async function validateVideo(
+  filePath: string,
+  signal?: AbortSignal
+): Promise<MediaInfo> {
+  let info: MediaInfo;
+  try {
+    info = await probeMedia(filePath, signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw new Error(`Not a readable video: ${filePath}: ${error}`);
+  }
+  if (!info.video || !info.video.width || !info.video.height) {
+    throw new Error(`No video stream in ${filePath}`);
+  }
+  if (!(info.durationSeconds > 0)) {
+    throw new Error(`Video has no duration: ${filePath}`);
+  }
+  return info;
+}
+
+// Scale into the frame without distortion, padding the rest, at a constant
+// frame rate
+const fitFilter = ({ width, height, frameRate }: VideoEncoding) =>
+  [
+    `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+    "setsar=1",
+    `fps=${frameRate}`,
+    "format=yuv420p",
+  ].join(",");
+
+// Largest centred area of the frame with the given aspect ratio
+const cropFilter = (aspectRatio: AspectRatio) => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  return `crop='min(iw,ih*${w}/${h})':'min(ih,iw*${h}/${w})'`;
+};
+
+const encodeArgs = (encoding: VideoEncoding) => [
+  "-c:v",
+  "libx264",
+  "-preset",
+  "veryfast",
+  "-b:v",
+  encoding.videoBitrate,
+  "-c:a",
+  "aac",
+  "-b:a",
+  encoding.audioBitrate,
+  "-ar",
+  String(AUDIO_SAMPLE_RATE),
+  "-movflags",
+  "+faststart",
+];
+
+const seconds = (value: number) => value.toFixed(3);
+
+// Re-encode a video to the target frame size and bitrate, optionally
+// centre-cropping it to an aspect ratio first and keeping only part of it
+export async function transcodeVideo(
+  inputPath: string,
+  outputPath: string,
+  {
+    encoding,
+    crop,
+    startSeconds,
+    durationSeconds,
+    signal,
+  }: {
+    encoding: VideoEncoding;
+    crop?: AspectRatio;
+    startSeconds?: number;
+    durationSeconds?: number;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const filters = crop
+    ? `${cropFilter(crop)},${fitFilter(encoding)}`
+    : fitFilter(encoding);
+  await ffmpeg(
+    [
+      ...(startSeconds ? ["-ss", seconds(startSeconds)] : []),
+      "-i",
+      inputPath,
+      ...(durationSeconds ? ["-t", seconds(durationSeconds)] : []),
+      "-map",
+      "0:v:0",
+      "-map",
+      "0:a:0?",
+      "-vf",
+      filters,
+      ...encodeArgs(encoding),
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Join videos end to end into one re-encoded file. Inputs may differ in
+// codec, frame size and frame rate; each is fitted to the target frame first.
+// A crossfade overlaps neighbouring clips, shortening the result by its
+// duration at every join.
+export async function concatVideos(
+  inputPaths: string[],
+  outputPath: string,
+  {
+    encoding,
+    transition,
+    signal,
+  }: { encoding: VideoEncoding; transition: Transition; signal?: AbortSignal }
+): Promise<void> {
+  const inputs = await Promise.all(
+    inputPaths.map((filePath) => validateVideo(filePath, signal))
+  );
+  // Clips without sound get silence so every segment has the same streams
+  const withAudio = inputs.some((input) => input.audio);
+  // A fade can't be longer than half of the shortest clip
+  const fade =
+    transition.type === "crossfade"
+      ? Math.min(
+          transition.durationSeconds,
+          ...inputs.map((input) => input.durationSeconds / 2)
+        )
+      : 0;
+
+  const filters: string[] = [];
+  inputs.forEach((input, i) => {
+    filters.push(`[${i}:v]${fitFilter(encoding)},settb=AVTB[v${i}]`);
+    if (withAudio) {
+      const source = input.audio
+        ? `[${i}:a]aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo,apad`
+        : `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo`;
+      filters.push(
+        `${source},atrim=duration=${seconds(input.durationSeconds)}[a${i}]`
+      );
+    }
+  });
+
+  let video = "v0";
+  let audio = "a0";
+  if (fade > 0) {
+    let offset = 0;
+    for (let i = 1; i < inputs.length; i++) {
+      offset += inputs[i - 1].durationSeconds - fade;
+      filters.push(
+        `[${video}][v${i}]xfade=transition=fade:duration=${seconds(
+          fade
+        )}:offset=${seconds(offset)}[vx${i}]`
+      );
+      video = `vx${i}`;
+      if (withAudio) {
+        filters.push(`[${audio}][a${i}]acrossfade=d=${seconds(fade)}[ax${i}]`);
+        audio = `ax${i}`;
+      }
+    }
+  } else if (inputs.length > 1) {
+    const segments = inputs
+      .map((_, i) => (withAudio ? `[v${i}][a${i}]` : `[v${i}]`))
+      .join("");
+    filters.push(
+      `${segments}concat=n=${inputs.length}:v=1:a=${withAudio ? 1 : 0}[vcat]${
+        withAudio ? "[acat]" : ""
+      }`
+    );
+    video = "vcat";
+    audio = "acat";
+  }
+
+  await ffmpeg(
+    [
+      ...inputPaths.flatMap((filePath) => ["-i", filePath]),
+      "-filter_complex",
+      filters.join(";"),
+      "-map",
+      `[${video}]`,
+      ...(withAudio ? ["-map", `[${audio}]`] : []),
+      ...encodeArgs(encoding),
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Replace a video's sound with an audio track. The video stream is copied;
+// the audio is padded with silence or cut off so the video keeps its length.
+// (Trimmed to the probed length rather than with -shortest, which never ends
+// with padded audio on some ffmpeg versions.)
+export async function muxAudio(
+  videoPath: string,
+  audioPath: string,
+  outputPath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const { durationSeconds } = await validateVideo(videoPath, signal);
+  await ffmpeg(
+    [
+      "-i",
+      videoPath,
+      "-i",
+      audioPath,
+      "-map",
+      "0:v:0",
+      "-map",
+      "1:a:0",
+      "-c:v",
+      "copy",
+      "-af",
+      `apad,atrim=duration=${seconds(durationSeconds)}`,
+      "-c:a",
+      "aac",
+      "-b:a",
+      AUDIO_BITRATE,
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Music fades in over the first half second and out over the last two
+const MUSIC_FADE_IN_SECONDS = 0.5;
+const MUSIC_FADE_OUT_SECONDS = 2;
+
+// Background track for mixSoundtrack
+export type MusicBed = {
+  audioPath: string;
+  volumeDb: number;
+  // Lower the music while the video's own audio (e.g. narration) plays
+  duck: boolean;
+};
+
+// Final sound of a video: its own audio, with an optional music bed looped or
+// cut to the video's length and ducked under it, normalized to the loudness
+// target in one pass. The video stream is copied.
+export async function mixSoundtrack(
+  videoPath: string,
+  outputPath: string,
+  { music, signal }: { music?: MusicBed; signal?: AbortSignal }
+): Promise<void> {
+  const info = await validateVideo(videoPath, signal);
+  if (!info.audio && !music) {
+    throw new Error(`No audio to mix in ${videoPath}`);
+  }
+  const duration = info.durationSeconds;
+  const format = `aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo`;
+  const filters: string[] = [];
+  let mixed = "[voice]";
+  if (info.audio) {
+    filters.push(
+      `[0:a]${format},apad,atrim=duration=${seconds(duration)}[voice]`
+    );
+  }
+  if (music) {
+    const fadeOut = Math.min(MUSIC_FADE_OUT_SECONDS, duration / 2);
+    filters.push(
+      `[1:a]${format},atrim=duration=${seconds(duration)},volume=${
+        music.volumeDb
+      }dB,afade=t=in:d=${MUSIC_FADE_IN_SECONDS},afade=t=out:st=${seconds(
+        duration - fadeOut
+      )}:d=${seconds(fadeOut)}[music]`
+    );
+    if (!info.audio) {
+      mixed = "[music]";
+    } else if (music.duck) {
+      filters.push(
+        "[voice]asplit=2[main][key]",
+        "[music][key]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=500[bed]",
+        "[main][bed]amix=inputs=2:duration=first:normalize=0[mixed]"
+      );
+      mixed = "[mixed]";
+    } else {
+      filters.push(
+        "[voice][music]amix=inputs=2:duration=first:normalize=0[mixed]"
+      );
+      mixed = "[mixed]";
+    }
+  }
+  const { integrated, truePeak, range } = LOUDNESS_TARGET;
+  filters.push(
+    `${mixed}loudnorm=I=${integrated}:TP=${truePeak}:LRA=${range},aresample=${AUDIO_SAMPLE_RATE}[out]`
+  );
+
+  await ffmpeg(
+    [
+      "-i",
+      videoPath,
+      ...(music ? ["-stream_loop", "-1", "-i", music.audioPath] : []),
+      "-filter_complex",
+      filters.join(";"),
+      "-map",
+      "0:v:0",
+      "-map",
+      "[out]",
+      "-c:v",
+      "copy",
+      "-c:a",
+      "aac",
+      "-b:a",
+      AUDIO_BITRATE,
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Quote a value for use as a filter option inside a filtergraph: once for the
+// option parser, once for the graph parser
+const escapeFilterValue = (value: string) =>
+  value.replace(/[\\':]/g, "\\$&").replace(/[\\'[\],;]/g, "\\$&");
+
+// Render a subtitle file into the frames with the given ASS style overrides
+export async function burnSubtitles(
+  videoPath: string,
+  subtitlesPath: string,
+  outputPath: string,
+  { forceStyle, signal }: { forceStyle?: string; signal?: AbortSignal } = {}
+): Promise<void> {
+  const options = [`filename=${escapeFilterValue(subtitlesPath)}`];
+  if (forceStyle) options.push(`force_style=${escapeFilterValue(forceStyle)}`);
+  await ffmpeg(
+    [
+      "-i",
+      videoPath,
+      "-vf",
+      `subtitles=${options.join(":")}`,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "copy",
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Still frame from the given time, scaled to `width` with the height keeping
+// the aspect ratio; the format follows the output's extension
+export async function extractFrame(
+  videoPath: string,
+  outputPath: string,
+  {
+    atSeconds,
+    width,
+    signal,
+  }: { atSeconds: number; width: number; signal?: AbortSignal }
+): Promise<void> {
+  await ffmpeg(
+    [
+      "-ss",
+      seconds(atSeconds),
+      "-i",
+      videoPath,
+      "-frames:v",
+      "1",
+      "-vf",
+      `scale=${width}:-2`,
+      "-q:v",
+      "3",
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Silent, endlessly looping animation of part of a video: a GIF with a
+// palette built from the clip itself, or an animated WebP, by the output's
+// extension
+export async function renderAnimation(
+  videoPath: string,
+  outputPath: string,
+  {
+    startSeconds,
+    durationSeconds,
+    width,
+    frameRate,
+    signal,
+  }: {
+    startSeconds: number;
+    durationSeconds: number;
+    width: number;
+    frameRate: number;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const scale = `fps=${frameRate},scale=${width}:-2:flags=lanczos`;
+  const gif = outputPath.endsWith(".gif");
+  await ffmpeg(
+    [
+      "-ss",
+      seconds(startSeconds),
+      "-t",
+      seconds(durationSeconds),
+      "-i",
+      videoPath,
+      "-an",
+      "-vf",
+      gif
+        ? `${scale},split[frames][copy];[copy]palettegen[palette];[frames][palette]paletteuse`
+        : scale,
+      ...(gif ? [] : ["-c:v", "libwebp_anim", "-q:v", "60"]),
+      "-loop",
+      "0",
+      outputPath,
+    ],
+    signal
+  );
+}
+
+export type OverlayPosition =
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right"
+  | "center";
+
+// Image drawn over the frame; sizes in pixels
+export type ImageOverlay = {
+  imagePath: string;
+  position: OverlayPosition;
+  width: number;
+  opacity: number;
+  margin: number;
+};
+
+const OVERLAY_COORDINATES: Record<OverlayPosition, (m: number) => string> = {
+  "top-left": (m) => `${m}:${m}`,
+  "top-right": (m) => `W-w-${m}:${m}`,
+  "bottom-left": (m) => `${m}:H-h-${m}`,
+  "bottom-right": (m) => `W-w-${m}:H-h-${m}`,
+  center: () => "(W-w)/2:(H-h)/2",
+};
+
+// Filtergraph drawing the image (input 1) and then the subtitles over input
+// 0's video
+function overlayGraph(image?: ImageOverlay, subtitlesPath?: string) {
+  const filters: string[] = [];
+  let video = "[0:v]";
+  if (image) {
+    filters.push(
+      `[1:v]scale=${image.width}:-1,format=rgba,colorchannelmixer=aa=${image.opacity}[image]`,
+      `${video}[image]overlay=${OVERLAY_COORDINATES[image.position](
+        image.margin
+      )}[overlaid]`
+    );
+    video = "[overlaid]";
+  }
+  filters.push(
+    subtitlesPath
+      ? `${video}subtitles=filename=${escapeFilterValue(subtitlesPath)}[out]`
+      : `${video}null[out]`
+  );
+  return filters.join(";");
+}
+
+// Draw an image and/or a subtitle file (e.g. ASS with positioned text) over a
+// video in one re-encode; the sound is copied
+export async function overlayVideo(
+  videoPath: string,
+  outputPath: string,
+  {
+    image,
+    subtitlesPath,
+    signal,
+  }: { image?: ImageOverlay; subtitlesPath?: string; signal?: AbortSignal }
+): Promise<void> {
+  await ffmpeg(
+    [
+      "-i",
+      videoPath,
+      ...(image ? ["-i", image.imagePath] : []),
+      "-filter_complex",
+      overlayGraph(image, subtitlesPath),
+      "-map",
+      "[out]",
+      "-map",
+      "0:a:0?",
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "copy",
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Silent clip of a solid color, e.g. a title or end card, with an optional
+// image and subtitle file drawn on it
+export async function renderCard(
+  outputPath: string,
+  {
+    color,
+    durationSeconds,
+    encoding,
+    image,
+    subtitlesPath,
+    signal,
+  }: {
+    // Hex, e.g. #1a2b3c
+    color: string;
+    durationSeconds: number;
+    encoding: VideoEncoding;
+    image?: ImageOverlay;
+    subtitlesPath?: string;
+    signal?: AbortSignal;
+  }
+): Promise<void> {
+  const { width, height, frameRate } = encoding;
+  await ffmpeg(
+    [
+      "-f",
+      "lavfi",
+      "-i",
+      `color=c=0x${color.replace(
+        /^#/,
+        ""
+      )}:s=${width}x${height}:r=${frameRate}:d=${seconds(durationSeconds)}`,
+      ...(image ? ["-i", image.imagePath] : []),
+      "-filter_complex",
+      `${overlayGraph(image, subtitlesPath)};[out]format=yuv420p[card]`,
+      "-map",
+      "[card]",
+      ...encodeArgs(encoding),
+      outputPath,
+    ],
+    signal
+  );
+}
+
+// Silent clip of ffmpeg's moving test pattern, a stand-in for provider
+// output when running offline
+export async function renderTestPattern(
+  outputPath: string,
+  {
+    durationSeconds,
+    encoding,
+    signal,
+  }: { durationSeconds: number; encoding: VideoEncoding; signal?: AbortSignal }
+): Promise<void> {
+  const { width, height, frameRate } = encoding;
+  await ffmpeg(
+    [
+      "-f",
+      "lavfi",
+      "-i",
+      `testsrc2=s=${width}x${height}:r=${frameRate}:d=${seconds(
+        durationSeconds
+      )}`,
+      "-pix_fmt",
+      "yuv420p",
+      ...encodeArgs(encoding),
+      outputPath,
+    ],
+    signal
+  );
+}
@@ -0,0 +1,238 @@
+import { withTables } from "./db";
+import type { GenerationResult } from "./generation";
+
+export type GenerationRecord = {
+  id: string;
+  // Who requested it; unset for CLI runs
+  userId?: string;
+  prompt: string;
+  style: string;
+  narration: string;
+  visualPrompt?: string;
+  aspectRatio: string;
+  textModel: string;
+  imageModel: string;
+  videoModel: string;
+  pollCount: number;
+  // Total priced usage of the run, in the rate table's currency
+  cost: number;
+  // Deliverables, as in GenerationResult.finalVideoPaths
+  filePaths: string[];
+  // Generation this one refined, and its place in that line: 1 for an
+  // original, the parent's version plus one for a refinement
+  parentId?: string;
+  version: number;
+  result: GenerationResult;
+  createdAt: string;
+  completedAt: string;
+};
+
+export type GenerationSummary = Omit<GenerationRecord, "result">;
+
+export type GenerationFilter = {
+  userId?: string;
+  style?: string;
+  // ISO timestamps; `to` is exclusive
+  from?: string;
+  to?: string;
+  // Matched against the prompt, narration and visual prompt
+  q?: string;
+  // Refinements of this generation
+  parentId?: string;
+  limit: number;
+  offset: number;
+};
+
+type GenerationRow = {
+  id: string;
+  user_id: string | null;
+  prompt: string;
+  style: string;
+  narration: string;
+  visual_prompt: string | null;
+  aspect_ratio: string;
+  text_model: string;
+  image_model: string;
+  video_model: string;
+  poll_count: number;
+  cost: number;
+  file_paths: string;
+  parent_id: string | null;
+  version: number;
+  result: string;
+  created_at: string;
+  completed_at: string;
+};
+
+// One row per finished generation
+const getDb = withTables(
+  `
+  CREATE TABLE IF NOT EXISTS generations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    prompt TEXT NOT NULL,
+    style TEXT NOT NULL,
+    narration TEXT NOT NULL,
+    visual_prompt TEXT,
+    aspect_ratio TEXT NOT NULL,
+    text_model TEXT NOT NULL,
+    image_model TEXT NOT NULL,
+    video_model TEXT NOT NULL,
+    poll_count INTEGER NOT NULL,
+    cost REAL NOT NULL DEFAULT 0,
+    file_paths TEXT NOT NULL,
+    parent_id TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    result TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    completed_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS generations_user_id ON generations (user_id);
+  CREATE INDEX IF NOT EXISTS generations_style ON generations (style);
+  CREATE INDEX IF NOT EXISTS generations_created_at ON generations (created_at);
+`,
+  {
+    generations: {
+      cost: "REAL NOT NULL DEFAULT 0",
+      parent_id: "TEXT",
+      version: "INTEGER NOT NULL DEFAULT 1",
+    },
+  }
+);
+
+function toSummary(row: GenerationRow): GenerationSummary {
+  return {
+    id: row.id,
+    userId: row.user_id ?? undefined,
+    prompt: row.prompt,
+    style: row.style,
+    narration: row.narration,
+    visualPrompt: row.visual_prompt ?? undefined,
+    aspectRatio: row.aspect_ratio,
+    textModel: row.text_model,
+    imageModel: row.image_model,
+    videoModel: row.video_model,
+    pollCount: row.poll_count,
+    cost: row.cost,
+    filePaths: JSON.parse(row.file_paths),
+    parentId: row.parent_id ?? undefined,
+    version: row.version,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+export function recordGeneration({
+  id,
+  userId,
+  prompt,
+  result,
+  createdAt,
+}: {
+  id: string;
+  userId?: string;
+  prompt: string;
+  result: GenerationResult;
+  createdAt: string;
+}) {
+  // A refinement is one version past its parent
+  const parentId = result.refinedFrom?.generationId;
+  const parent = parentId ? getGeneration(parentId) : undefined;
+  getDb()
+    .prepare(
+      `INSERT OR REPLACE INTO generations (
+        id, user_id, prompt, style, narration, visual_prompt, aspect_ratio,
+        text_model, image_model, video_model, poll_count, cost, file_paths,
+        parent_id, version, result, created_at, completed_at
+      ) VALUES (
+        @id, @user_id, @prompt, @style, @narration, @visual_prompt,
+        @aspect_ratio, @text_model, @image_model, @video_model, @poll_count,
+        @cost, @file_paths, @parent_id, @version, @result, @created_at,
+        @completed_at
+      )`
+    )
+    .run({
+      id,
+      user_id: userId ?? null,
+      prompt,
+      style: result.style,
+      narration: result.narration,
+      visual_prompt: result.visualPrompt ?? null,
+      aspect_ratio: result.settings.aspectRatio,
+      text_model: result.settings.textModel,
+      image_model: result.settings.imageModel,
+      video_model: result.settings.videoModel,
+      poll_count: result.pollCount,
+      cost: result.usage?.totalCost ?? 0,
+      file_paths: JSON.stringify(result.finalVideoPaths),
+      parent_id: parentId ?? null,
+      version: (parent?.version ?? 0) + 1,
+      result: JSON.stringify(result),
+      created_at: createdAt,
+      completed_at: new Date().toISOString(),
+    });
+  console.log(`[HISTORY] Recorded generation ${id}`);
+}
+
+// Newest first
+export function listGenerations(filter: GenerationFilter): GenerationRecord[] {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {
+    limit: filter.limit,
+    offset: filter.offset,
+  };
+  if (filter.userId) {
+    conditions.push("user_id = @userId");
+    params.userId = filter.userId;
+  }
+  if (filter.style) {
+    conditions.push("style = @style");
+    params.style = filter.style;
+  }
+  if (filter.from) {
+    conditions.push("created_at >= @from");
+    params.from = filter.from;
+  }
+  if (filter.to) {
+    conditions.push("created_at < @to");
+    params.to = filter.to;
+  }
+  if (filter.parentId) {
+    conditions.push("parent_id = @parentId");
+    params.parentId = filter.parentId;
+  }
+  if (filter.q) {
+    conditions.push(
+      "(prompt LIKE @q OR narration LIKE @q OR visual_prompt LIKE @q)"
+    );
+    params.q = `%${filter.q}%`;
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM generations ${where}
+       ORDER BY created_at DESC LIMIT @limit OFFSET @offset`
+    )
+    .all(params) as GenerationRow[];
+  return rows.map(toRecord);
+}
+
+const toRecord = (row: GenerationRow): GenerationRecord => ({
+  ...toSummary(row),
+  result: JSON.parse(row.result),
+});
+
+export function getGeneration(id: string): GenerationRecord | undefined {
+  const row = getDb()
+    .prepare("SELECT * FROM generations WHERE id = ?")
+    .get(id) as GenerationRow | undefined;
+  return row && toRecord(row);
+}
+
+// Returns false when there was no such generation
+export function deleteGeneration(id: string): boolean {
+  const { changes } = getDb()
+    .prepare("DELETE FROM generations WHERE id = ?")
+    .run(id);
+  return changes > 0;
+}
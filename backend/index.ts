@@ -1,332 +1,954 @@
 import "dotenv/config";
-import { GoogleGenAI } from "@google/genai";
-import { Agent, handoff, run, tool } from "@openai/agents";
-import { z } from "zod";
+import type { AgentInputItem } from "@openai/agents";
 import express from "express";
 import cors from "cors";
-import fs from "fs/promises";
-import path from "path";
-import { createWriteStream } from "fs";
-
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+import { z } from "zod";
+import {
+  GenerateRequestSchema,
+  RefineRequestSchema,
+  createOpenApiDocument,
+  presentGeneration,
+  presentJob,
+} from "./api";
+import {
+  AuthUser,
+  authenticate,
+  canAccess,
+  createApiKey,
+  listApiKeys,
+  requireAdmin,
+  revokeApiKey,
+  setApiKeyWebhook,
+} from "./auth";
+import {
+  AgentOutput,
+  GenerationOptions,
+  RenderSettingsSchema,
+  capabilities,
+  generateStoryboardVideo,
+  refineGeneration,
+  removeJobArtifacts,
+  runGeneration,
+  storage,
+} from "./generation";
+import {
+  deleteGeneration,
+  getGeneration,
+  listGenerations,
+  recordGeneration,
+} from "./history";
+import {
+  cancelJob,
+  enqueueJob,
+  getJob,
+  Job,
+  listJobs,
+  onJobFinished,
+  setJobStage,
+  updateJob,
+} from "./jobs";
+import {
+  BrandKitSchema,
+  LOGO_CONTENT_TYPES,
+  deleteBrandKit,
+  getBrandKit,
+  listBrandKits,
+  saveBrandKit,
+  saveBrandLogo,
+} from "./brands";
+import {
+  inlineDisposition,
+  verifyEventsToken,
+  verifyMediaToken,
+} from "./media";
+import { getMusicTrack, listMusicTracks } from "./music";
+import { screenPrompt } from "./moderation";
+import { subscribeProgress } from "./progress";
+import { getQuotaUsage, limitGenerations, recordQuotaUsage } from "./quotas";
+import {
+  Session,
+  SessionRequest,
+  askQuestion,
+  closeSession,
+  getSession,
+  replyToSession,
+} from "./sessions";
+import { STORAGE_DIR } from "./storage";
+import {
+  StyleDefinitionSchema,
+  deleteStyle,
+  getStyle,
+  listStyles,
+  saveStyle,
+} from "./styles";
+import { createUsageMeter, summarizeUsage } from "./usage";
+import {
+  DELIVERY_STATUSES,
+  WebhookTargetSchema,
+  checkWebhookUrl,
+  getWebhookDelivery,
+  jobEvent,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  resumeWebhookDeliveries,
+  sendWebhook,
+} from "./webhooks";
+
+// The server keeps individual clips and leaves merging to clients. Keyframes
+// are kept so a refinement can render new clips from them.
+const GENERATION_OPTIONS: GenerationOptions = {
+  outputDir: STORAGE_DIR,
+  saveImage: true,
+  concatenate: false,
+  voiceover: true,
+  captions: true,
+  burnCaptions: false,
+  previews: true,
+};
 
-type VideoStyle = "hype" | "ad" | "cinematic";
+// Comma-separated origins allowed to call the API from a browser; "*"
+// allows any origin, unset allows none
+const CORS_ORIGINS = (process.env.CORS_ORIGINS ?? "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
 
-// Create output directory if it doesn't exist
-const OUTPUT_DIR = path.join(process.cwd(), "output");
+const app = express();
+app.use(
+  cors({
+    origin: CORS_ORIGINS.includes("*") ? true : CORS_ORIGINS,
+    exposedHeaders: ["Retry-After"],
+  })
+);
+app.use(express.json());
 
-async function ensureOutputDir() {
-  try {
-    await fs.access(OUTPUT_DIR);
-  } catch {
-    await fs.mkdir(OUTPUT_DIR, { recursive: true });
-    console.log(`Created output directory: ${OUTPUT_DIR}`);
+// Streams stored artifacts to holders of a signed URL from a job response.
+// Single byte ranges are honoured so players can seek.
+app.get("/api/media/*key", async (req: any, res: any) => {
+  const key = req.params.key.join("/");
+  const { token } = req.query;
+  if (typeof token !== "string") {
+    return res.status(401).json({ error: "Media token is required" });
+  }
+  if (!verifyMediaToken(key, token)) {
+    return res.status(403).json({ error: "Invalid or expired media token" });
   }
-}
-
-// Download video from URI and save to file
-async function downloadVideo(uri: string, filename: string): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  const urlWithKey = `${uri}&key=${apiKey}`;
 
-  console.log(`Downloading video from: ${uri}`);
+  const metadata = await storage.stat(key);
+  if (!metadata) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+  res.set({
+    "Accept-Ranges": "bytes",
+    "Content-Type": metadata.contentType,
+    "Content-Disposition": inlineDisposition(metadata.name),
+  });
 
-  const response = await fetch(urlWithKey);
-  if (!response.ok) {
-    throw new Error(`Failed to download video: ${response.statusText}`);
+  const ranges = req.range(metadata.size);
+  if (ranges === -1) {
+    res.set("Content-Range", `bytes */${metadata.size}`);
+    return res.status(416).json({ error: "Range not satisfiable" });
   }
+  const range =
+    Array.isArray(ranges) && ranges.length === 1 ? ranges[0] : undefined;
+  if (range) {
+    res
+      .status(206)
+      .set(
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${metadata.size}`
+      );
+  }
+  res.set(
+    "Content-Length",
+    String(range ? range.end - range.start + 1 : metadata.size)
+  );
 
-  const filePath = path.join(OUTPUT_DIR, filename);
-  const fileStream = createWriteStream(filePath);
+  const body = await storage.get(key, range);
+  body.on("error", (error) => {
+    console.error(`[API] Failed to stream ${key}:`, error);
+    res.destroy(error);
+  });
+  body.pipe(res);
+});
 
-  if (!response.body) {
-    throw new Error("No response body");
+// Progress stream opened with the signed eventsUrl of a job response, for
+// EventSource; without a token the authenticated route below serves it
+app.get("/api/jobs/:id/events", (req: any, res: any, next: () => void) => {
+  const { token } = req.query;
+  if (typeof token !== "string") return next();
+  if (!verifyEventsToken(req.params.id, token)) {
+    return res.status(403).json({ error: "Invalid or expired events token" });
+  }
+  if (!getJob(req.params.id)) {
+    return res.status(404).json({ error: "Job not found" });
   }
+  subscribeProgress(req.params.id, req, res);
+});
+
+// Published description of the generation endpoints and response envelope
+const openApiDocument = createOpenApiDocument(RenderSettingsSchema);
 
-  const reader = response.body.getReader();
+app.get("/api/openapi.json", (_req: any, res: any) => {
+  res.json(openApiDocument);
+});
 
+// Everything below needs a bearer token or API key; media and progress
+// streams above are authorised by their signed URLs instead
+app.use("/api", authenticate);
+app.use("/api/generate-video", limitGenerations);
+
+// Run the agents for a job. When triage asks a clarifying question instead of
+// handing off, the run history is kept in a session so the user's reply can
+// carry on from there into generation.
+async function runAgentJob(
+  job: Job,
+  signal: AbortSignal,
+  input: string | AgentInputItem[],
+  request: SessionRequest,
+  sessionId?: string
+): Promise<AgentOutput | undefined> {
+  console.log(`[API] Job ${job.id}: running triage agent...`);
+  setJobStage(job.id, "triage");
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      fileStream.write(value);
+    const { result, output, history } = await runGeneration(
+      input,
+      {
+        ...GENERATION_OPTIONS,
+        ...request,
+        signal,
+        usage: createUsageMeter({ jobId: job.id, userId: job.userId }),
+      },
+      job.id
+    );
+    updateJob(job.id, { result, sessionId });
+    if (result) {
+      recordGeneration({
+        id: job.id,
+        userId: job.userId,
+        prompt: job.prompt,
+        result,
+        createdAt: job.createdAt,
+      });
+    } else if (typeof output === "string") {
+      const session = askQuestion({
+        sessionId,
+        jobId: job.id,
+        userId: job.userId,
+        prompt: job.prompt,
+        question: output,
+        history,
+        request,
+        webhook: job.webhook,
+      });
+      updateJob(job.id, { sessionId: session.id, question: output });
+      return output;
     }
-  } finally {
-    fileStream.end();
+    closeSession(sessionId);
+    return output;
+  } catch (error) {
+    closeSession(sessionId);
+    throw error;
   }
-
-  console.log(`Video saved to: ${filePath}`);
-  return filePath;
 }
 
-async function generateVideo({
-  prompt,
-  style,
-  narrationPrompt,
-  visualPrompt,
-}: {
-  prompt: string;
-  style: VideoStyle;
-  narrationPrompt: string;
-  visualPrompt: string;
-}): Promise<{ filePaths: string[] }> {
-  console.log(
-    `[${style.toUpperCase()}] Starting video generation for prompt: ${prompt}`
+app.post("/api/generate-video", async (req: any, res: any) => {
+  const user: AuthUser = req.user;
+  const { prompt } = req.body;
+  console.log(`[API] New video generation request: ${prompt}`);
+
+  if (!prompt) {
+    console.error("[API] No prompt provided");
+    return res.status(400).json({ error: "Prompt is required" });
+  }
+
+  const parsed = GenerateRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    console.error("[API] Invalid request:", parsed.error.message);
+    return res.status(400).json({ error: parsed.error.message });
+  }
+  const { storyboard, style, brandKit, music, webhook } = parsed.data;
+  if (style && !getStyle(style)) {
+    return res.status(400).json({ error: `Unknown style "${style}"` });
+  }
+  if (brandKit && !getBrandKit(brandKit)) {
+    return res.status(400).json({ error: `Unknown brand kit "${brandKit}"` });
+  }
+  if (music && !getMusicTrack(music)) {
+    return res.status(400).json({ error: `Unknown music track "${music}"` });
+  }
+  const unreachable = webhook && (await checkWebhookUrl(webhook.url));
+  if (unreachable) {
+    return res.status(400).json({ error: unreachable });
+  }
+
+  // Aspect ratio, clip count, duration and model choices sit at the top level
+  // of the body next to the prompt
+  const settings = RenderSettingsSchema.safeParse(req.body);
+  if (!settings.success) {
+    console.error("[API] Invalid settings:", settings.error.message);
+    return res.status(400).json({ error: settings.error.message });
+  }
+  if (typeof storyboard === "object" && !style) {
+    return res
+      .status(400)
+      .json({ error: "Style is required to re-run a storyboard" });
+  }
+
+  // Local content rules before anything is queued; the agents' guardrail
+  // repeats them with a model review. A re-run storyboard skips the agents,
+  // so its scenes are screened here too.
+  const verdict = screenPrompt(
+    prompt,
+    ...(typeof storyboard === "object"
+      ? storyboard.scenes.flatMap((scene) => [
+          scene.visualPrompt,
+          scene.narration,
+        ])
+      : [])
   );
+  if (!verdict.allowed) {
+    return res.status(422).json({
+      error: "Prompt violates the content policy",
+      moderation: verdict,
+    });
+  }
 
-  // Ensure output directory exists
-  await ensureOutputDir();
+  const job = enqueueJob(prompt, user.id, async (job, signal) => {
+    if (typeof storyboard === "object" && style) {
+      console.log(`[API] Job ${job.id}: re-running ${style} storyboard...`);
+      updateJob(job.id, { style });
+      const result = await generateStoryboardVideo({
+        prompt,
+        style,
+        storyboard,
+        options: {
+          ...GENERATION_OPTIONS,
+          settings: settings.data,
+          brandKit,
+          music,
+          signal,
+          usage: createUsageMeter({ jobId: job.id, userId: user.id }),
+        },
+        jobId: job.id,
+      });
+      updateJob(job.id, { result });
+      recordGeneration({
+        id: job.id,
+        userId: user.id,
+        prompt,
+        result,
+        createdAt: job.createdAt,
+      });
+      // No agents ran, so there's no agent output
+      return undefined;
+    }
 
-  console.log(`[${style.toUpperCase()}] Generating narration...`);
-  const narrationRes = await genAI.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: [narrationPrompt],
+    return runAgentJob(job, signal, prompt, {
+      style,
+      storyboard: storyboard === true,
+      settings: settings.data,
+      brandKit,
+      music,
+    });
   });
+  updateJob(job.id, { webhook: webhook ?? user.webhook });
+  recordQuotaUsage(user.id, job.id);
 
-  const narration = narrationRes.text?.replace(/\*/g, "").trim();
-  if (!narration) {
-    console.error(`[${style.toUpperCase()}] Failed to generate narration text`);
-    throw new Error("Failed to generate narration text");
+  console.log(`[API] Queued job ${job.id} for ${user.id}`);
+  res.status(202).json(presentJob(job));
+});
+
+// Clarifying questions from triage: the session of a job in "needs_input"
+// takes the user's answer and resumes the same conversation in a new job
+function findSession(req: any, res: any): Session | undefined {
+  const session = getSession(req.params.id);
+  if (!session) {
+    res.status(404).json({ error: "Session not found or expired" });
+  } else if (!canAccess(req.user, session.userId)) {
+    res.status(403).json({ error: "You don't have access to this session" });
+  } else {
+    return session;
+  }
+}
+
+const SessionReplySchema = z.object({ reply: z.string().min(1) });
+
+app.get("/api/sessions/:id", (req: any, res: any) => {
+  const session = findSession(req, res);
+  if (!session) return;
+  const { history, ...rest } = session;
+  res.json(rest);
+});
+
+app.post("/api/sessions/:id/reply", limitGenerations, (req: any, res: any) => {
+  const session = findSession(req, res);
+  if (!session) return;
+  if (session.status !== "awaiting_reply") {
+    return res
+      .status(409)
+      .json({ error: "Session is not waiting for a reply" });
+  }
+  const parsed = SessionReplySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.message });
   }
-  console.log(
-    `[${style.toUpperCase()}] Narration generated: ${narration.substring(
-      0,
-      100
-    )}...`
+  const { reply } = parsed.data;
+  const verdict = screenPrompt(reply);
+  if (!verdict.allowed) {
+    return res.status(422).json({
+      error: "Reply violates the content policy",
+      moderation: verdict,
+    });
+  }
+
+  // The session's first job already counted against the daily quota
+  const input: AgentInputItem[] = [
+    ...session.history,
+    { role: "user", content: reply },
+  ];
+  const job = enqueueJob(
+    `${session.prompt}\n${reply}`,
+    session.userId,
+    (job, signal) =>
+      runAgentJob(job, signal, input, session.request, session.id)
   );
+  updateJob(job.id, { sessionId: session.id, webhook: session.webhook });
+  replyToSession(session.id, job.id);
+  console.log(`[API] Queued job ${job.id} replying to session ${session.id}`);
+  res.status(202).json(presentJob(job));
+});
 
-  console.log(`[${style.toUpperCase()}] Generating image...`);
-  const imageResp = await genAI.models.generateImages({
-    model: "imagen-3.0-generate-002",
-    prompt: visualPrompt,
-    config: { numberOfImages: 1 },
+app.get("/api/capabilities", (_req: any, res: any) => {
+  res.json({
+    ...capabilities,
+    styles: listStyles().map((style) => style.name),
+    brandKits: listBrandKits().map((kit) => kit.name),
+    musicTracks: listMusicTracks().map((track) => track.name),
   });
+});
 
-  const image = imageResp.generatedImages?.[0]?.image;
-  if (!image?.imageBytes) {
-    console.error(`[${style.toUpperCase()}] Failed to generate image`);
-    throw new Error("Failed to generate image");
-  }
-  console.log(`[${style.toUpperCase()}] Image generated successfully`);
-
-  console.log(`[${style.toUpperCase()}] Starting video generation with Veo...`);
-  let op = await genAI.models.generateVideos({
-    model: "veo-2.0-generate-001",
-    prompt: narration,
-    image: {
-      imageBytes: image.imageBytes,
-      mimeType: "image/png",
-    },
-    config: {
-      aspectRatio: "9:16",
-      numberOfVideos: 2,
-    },
+app.get("/api/me", (req: any, res: any) => {
+  const user: AuthUser = req.user;
+  res.json({
+    id: user.id,
+    role: user.role,
+    method: user.method,
+    quotas: getQuotaUsage(user),
   });
+});
 
-  let pollCount = 0;
-  while (!op.done) {
-    pollCount++;
-    console.log(
-      `[${style.toUpperCase()}] Waiting for video generation... (poll #${pollCount})`
-    );
-    await new Promise((r) => setTimeout(r, 10000));
-    op = await genAI.operations.getVideosOperation({ operation: op });
+// Service account keys, managed by admins
+const ApiKeyRequestSchema = z.object({
+  name: z.string().min(1),
+  // User the key acts as; defaults to a service account named after the key
+  userId: z.string().min(1).optional(),
+  role: z.enum(["admin", "user"]).default("user"),
+  videosPerDay: z.number().int().min(0).optional(),
+  concurrentJobs: z.number().int().min(1).optional(),
+  // Where jobs submitted with the key report their outcome
+  webhook: WebhookTargetSchema.optional(),
+});
+
+app.get("/api/keys", requireAdmin, (_req: any, res: any) => {
+  res.json({ keys: listApiKeys() });
+});
+
+app.post("/api/keys", requireAdmin, async (req: any, res: any) => {
+  const parsed = ApiKeyRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.message });
+  }
+  const { name, userId, role, videosPerDay, concurrentJobs, webhook } =
+    parsed.data;
+  const unreachable = webhook && (await checkWebhookUrl(webhook.url));
+  if (unreachable) {
+    return res.status(400).json({ error: unreachable });
   }
+  const { apiKey, key } = createApiKey({
+    name,
+    userId: userId ?? `service:${name}`,
+    role,
+    quotas: { videosPerDay, concurrentJobs },
+    webhook,
+    createdBy: req.user.id,
+  });
+  // The key itself is only shown once
+  res.status(201).json({ ...apiKey, key });
+});
 
-  const videos = op.response?.generatedVideos;
-  if (!videos || videos.length === 0) {
-    console.error(
-      `[${style.toUpperCase()}] Video generation failed - no videos returned`
-    );
-    throw new Error("Video generation failed");
+app.put("/api/keys/:id/webhook", requireAdmin, async (req: any, res: any) => {
+  const parsed = WebhookTargetSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.message });
   }
+  const unreachable = await checkWebhookUrl(parsed.data.url);
+  if (unreachable) {
+    return res.status(400).json({ error: unreachable });
+  }
+  if (!setApiKeyWebhook(req.params.id, parsed.data)) {
+    return res.status(404).json({ error: "API key not found" });
+  }
+  res.status(204).end();
+});
 
-  // Download and save videos
-  const filePaths: string[] = [];
-  for (let i = 0; i < videos.length; i++) {
-    const uri = videos[i]?.video?.uri;
-    if (uri) {
-      console.log(
-        `[${style.toUpperCase()}] Video ${i + 1} URI generated: ${uri}`
-      );
+app.delete("/api/keys/:id/webhook", requireAdmin, (req: any, res: any) => {
+  if (!setApiKeyWebhook(req.params.id, undefined)) {
+    return res.status(404).json({ error: "API key not found" });
+  }
+  res.status(204).end();
+});
 
-      // Generate filename with timestamp and style
-      const timestamp = Date.now();
-      const filename = `${style}_video_${timestamp}_${i + 1}.mp4`;
-
-      try {
-        const filePath = await downloadVideo(uri, filename);
-        filePaths.push(filePath);
-        console.log(
-          `[${style.toUpperCase()}] Video ${i + 1} saved to: ${filePath}`
-        );
-      } catch (error) {
-        console.error(
-          `[${style.toUpperCase()}] Failed to download video ${i + 1}:`,
-          error
-        );
-        // Continue with other videos even if one fails
-      }
-    }
+app.delete("/api/keys/:id", requireAdmin, (req: any, res: any) => {
+  if (!revokeApiKey(req.params.id)) {
+    return res.status(404).json({ error: "API key not found" });
   }
+  res.status(204).end();
+});
 
-  if (filePaths.length === 0) {
-    throw new Error("Failed to download any videos");
+// Style registry: styles saved here are written to the styles directory and
+// offered to the triage agent on the next run
+app.get("/api/styles", (_req: any, res: any) => {
+  res.json({ styles: listStyles() });
+});
+
+app.get("/api/styles/:name", (req: any, res: any) => {
+  const style = getStyle(req.params.name);
+  if (!style) {
+    return res.status(404).json({ error: "Style not found" });
   }
+  res.json(style);
+});
 
-  console.log(
-    `[${style.toUpperCase()}] Video generation complete - ${
-      filePaths.length
-    } videos saved`
-  );
-  return { filePaths };
+// Validate a style body, including its default settings against the
+// configured providers
+function parseStyle(body: unknown) {
+  const parsed = StyleDefinitionSchema.safeParse(body);
+  if (!parsed.success) return { error: parsed.error.message };
+  const defaults = RenderSettingsSchema.safeParse(parsed.data.defaults);
+  if (!defaults.success) return { error: defaults.error.message };
+  return { style: parsed.data };
 }
 
-const PromptSchema = z.object({ prompt: z.string() });
-
-const createHypeAgent = () =>
-  new Agent<{ prompt: string }>({
-    name: "Hype Video Agent",
-    instructions:
-      "You create fast-paced, high-energy hype videos that get people pumped up. Use bold visuals and powerful, energetic narration.",
-    tools: [
-      tool({
-        name: "generate_hype_video",
-        description:
-          "Generate a fast-paced, high-energy hype video from a user prompt.",
-        parameters: PromptSchema,
-        execute: async ({ prompt }) => {
-          console.log(`[HYPE] Starting hype video generation for: ${prompt}`);
-          return await generateVideo({
-            prompt,
-            style: "hype",
-            narrationPrompt: `Create a high-octane, adrenaline-pumping voiceover script for: ${prompt}. Use short sentences, punchy verbs, and crowd-rallying phrases.`,
-            visualPrompt: `Design energetic, flashy visuals with quick cuts, bold typography, vibrant motion graphics, and fast transitions — all themed around: ${prompt}`,
-          });
-        },
-      }),
-    ],
-  });
+app.post("/api/styles", requireAdmin, async (req: any, res: any) => {
+  const { style, error } = parseStyle(req.body);
+  if (!style) {
+    console.error("[API] Invalid style:", error);
+    return res.status(400).json({ error });
+  }
+  if (getStyle(style.name)) {
+    return res.status(409).json({ error: "Style already exists" });
+  }
+  await saveStyle(style);
+  res.status(201).json(style);
+});
 
-const createAdAgent = () =>
-  new Agent<{ prompt: string }>({
-    name: "Ad Video Agent",
-    instructions:
-      "You create professional, sleek promotional videos that highlight products, services, or ideas in a clean and marketable way.",
-    tools: [
-      tool({
-        name: "generate_ad_video",
-        description: "Generate a clean and polished promotional ad video.",
-        parameters: PromptSchema,
-        execute: async ({ prompt }) => {
-          console.log(`[AD] Starting ad video generation for: ${prompt}`);
-          return await generateVideo({
-            prompt,
-            style: "ad",
-            narrationPrompt: `Write a clear, persuasive product ad script for: ${prompt}. Focus on key features, benefits, and a strong call to action. Keep it brand-friendly and concise.`,
-            visualPrompt: `Sleek, minimal commercial visuals for: ${prompt}. Use clean lighting, product showcases, soft motion effects, and whitespace.`,
-          });
-        },
-      }),
-    ],
-  });
+app.put("/api/styles/:name", requireAdmin, async (req: any, res: any) => {
+  const { style, error } = parseStyle({ ...req.body, name: req.params.name });
+  if (!style) {
+    console.error("[API] Invalid style:", error);
+    return res.status(400).json({ error });
+  }
+  await saveStyle(style);
+  res.json(style);
+});
 
-const createCinematicAgent = () =>
-  new Agent<{ prompt: string }>({
-    name: "Cinematic Video Agent",
-    instructions:
-      "You create emotional, story-driven cinematic videos with a poetic tone and visually rich atmosphere.",
-    tools: [
-      tool({
-        name: "generate_cinematic_video",
-        description: "Generate a visually rich, emotional cinematic video.",
-        parameters: PromptSchema,
-        execute: async ({ prompt }) => {
-          console.log(
-            `[CINEMATIC] Starting cinematic video generation for: ${prompt}`
-          );
-          return await generateVideo({
-            prompt,
-            style: "cinematic",
-            narrationPrompt: `Craft a poetic, emotionally resonant script (3–5 lines) that captures the essence of: ${prompt}. Use metaphors, vivid imagery, and a soft, reflective tone.`,
-            visualPrompt: `Create visually cinematic, atmospheric visuals for: ${prompt}. Use slow motion, natural lighting, deep contrast, and wide shots to evoke emotion.`,
-          });
-        },
-      }),
-    ],
-  });
+app.delete("/api/styles/:name", requireAdmin, async (req: any, res: any) => {
+  if (!(await deleteStyle(req.params.name))) {
+    return res.status(404).json({ error: "Style not found" });
+  }
+  res.status(204).end();
+});
 
-const createTriageAgent = () => {
-  const HypeAgent = createHypeAgent();
-  const AdAgent = createAdAgent();
-  const CinematicAgent = createCinematicAgent();
-
-  return new Agent({
-    name: "Triage Agent",
-    instructions: `
-You are a video director assistant.
-Based on the user's input prompt, decide the best style and hand off:
-- Hype for excitement
-- Ad for product promotions
-- Cinematic for emotional stories`,
-    handoffs: [
-      handoff(HypeAgent, {
-        toolNameOverride: "use_hype_tool",
-        toolDescriptionOverride: "Send to hype video agent.",
-      }),
-      handoff(AdAgent, {
-        toolNameOverride: "use_ad_tool",
-        toolDescriptionOverride: "Send to ad video agent.",
-      }),
-      handoff(CinematicAgent, {
-        toolNameOverride: "use_cinematic_tool",
-        toolDescriptionOverride: "Send to cinematic video agent.",
-      }),
-    ],
-  });
-};
+// Music library, to pick a track for a request; tracks are added to the
+// music directory
+app.get("/api/music", (_req: any, res: any) => {
+  res.json({ tracks: listMusicTracks() });
+});
 
-const app = express();
-app.use(cors());
-app.use(express.json());
+// Brand kits: logo, colors, call to action and end card put on branded videos
+app.get("/api/brands", (_req: any, res: any) => {
+  res.json({ brandKits: listBrandKits() });
+});
 
-app.post("/api/generate-video", async (req: any, res: any) => {
-  const { prompt } = req.body;
-  console.log(`[API] New video generation request: ${prompt}`);
+app.get("/api/brands/:name", (req: any, res: any) => {
+  const kit = getBrandKit(req.params.name);
+  if (!kit) {
+    return res.status(404).json({ error: "Brand kit not found" });
+  }
+  res.json(kit);
+});
 
-  if (!prompt) {
-    console.error("[API] No prompt provided");
-    return res.status(400).json({ error: "Prompt is required" });
+// Validate a brand kit body; its logo must already be in the brands
+// directory, so new kits get one through the logo upload
+function parseBrandKit(body: unknown) {
+  const parsed = BrandKitSchema.safeParse(body);
+  if (!parsed.success) return { error: parsed.error.message };
+  const { logo } = parsed.data;
+  if (logo && logo !== getBrandKit(parsed.data.name)?.logo) {
+    return { error: "Upload the logo with PUT /api/brands/{name}/logo" };
   }
+  return { kit: parsed.data };
+}
 
-  try {
-    console.log("[API] Initializing triage agent...");
-    const TriageAgent = createTriageAgent();
+app.post("/api/brands", requireAdmin, async (req: any, res: any) => {
+  const { kit, error } = parseBrandKit(req.body);
+  if (!kit) {
+    console.error("[API] Invalid brand kit:", error);
+    return res.status(400).json({ error });
+  }
+  if (getBrandKit(kit.name)) {
+    return res.status(409).json({ error: "Brand kit already exists" });
+  }
+  await saveBrandKit(kit);
+  res.status(201).json(kit);
+});
 
-    console.log("[API] Running agent with prompt...");
-    const result = await run(TriageAgent, prompt);
-    const output = await result.finalOutput;
+app.put("/api/brands/:name", requireAdmin, async (req: any, res: any) => {
+  const { kit, error } = parseBrandKit({ ...req.body, name: req.params.name });
+  if (!kit) {
+    console.error("[API] Invalid brand kit:", error);
+    return res.status(400).json({ error });
+  }
+  await saveBrandKit(kit);
+  res.json(kit);
+});
 
-    if (!output) {
-      console.error("[API] No output received from agent");
-      throw new Error("No output received from agent");
+// Logo as the raw request body, PNG or JPEG
+app.put(
+  "/api/brands/:name/logo",
+  requireAdmin,
+  express.raw({ type: Object.keys(LOGO_CONTENT_TYPES), limit: "2mb" }),
+  async (req: any, res: any) => {
+    const kit = getBrandKit(req.params.name);
+    if (!kit) {
+      return res.status(404).json({ error: "Brand kit not found" });
     }
+    const contentType = req.get("content-type")?.split(";")[0];
+    if (!LOGO_CONTENT_TYPES[contentType] || !Buffer.isBuffer(req.body)) {
+      return res
+        .status(415)
+        .json({ error: "Logos are uploaded as image/png or image/jpeg" });
+    }
+    if (!req.body.length) {
+      return res.status(400).json({ error: "Logo is empty" });
+    }
+    res.json(await saveBrandLogo(kit, req.body, contentType));
+  }
+);
+
+app.delete("/api/brands/:name", requireAdmin, async (req: any, res: any) => {
+  if (!(await deleteBrandKit(req.params.name))) {
+    return res.status(404).json({ error: "Brand kit not found" });
+  }
+  res.status(204).end();
+});
 
-    console.log(
-      "[API] Agent completed successfully, returning file paths:",
-      output
+// Looks up a job the user may see, answering 404/403 otherwise
+function findJob(req: any, res: any): Job | undefined {
+  const job = getJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+  } else if (!canAccess(req.user, job.userId)) {
+    res.status(403).json({ error: "You don't have access to this job" });
+  } else {
+    return job;
+  }
+}
+
+app.get("/api/jobs", (req: any, res: any) => {
+  const jobs = listJobs().filter((job) => canAccess(req.user, job.userId));
+  res.json({ jobs: jobs.map(presentJob) });
+});
+
+app.get("/api/jobs/:id", (req: any, res: any) => {
+  const job = findJob(req, res);
+  if (!job) return;
+  res.json(presentJob(job));
+});
+
+// Stops polling and downloads; the job ends up "cancelled" once it winds down
+app.delete("/api/jobs/:id", (req: any, res: any) => {
+  const job = findJob(req, res);
+  if (!job) return;
+  if (!cancelJob(job.id)) {
+    return res.status(409).json({ error: `Job already ${job.status}` });
+  }
+  res.status(202).json(presentJob(job));
+});
+
+// Finished generations, kept across restarts
+// ISO dates or timestamps; a bare date in `to` includes that whole day
+const DateBoundSchema = z.string().date().or(z.string().datetime()).optional();
+
+const GenerationQuerySchema = z.object({
+  // Admins only; everyone else sees their own generations
+  userId: z.string().optional(),
+  style: z.string().optional(),
+  from: DateBoundSchema,
+  to: DateBoundSchema,
+  q: z.string().optional(),
+  // Refinements of this generation
+  parentId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Date-only bounds are compared as the start of that day (UTC)
+const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Turn query bounds into ISO timestamps with an exclusive end
+function toTimeRange(from?: string, to?: string) {
+  let end = to;
+  if (to && isDateOnly(to)) {
+    const nextDay = new Date(`${to}T00:00:00.000Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    end = nextDay.toISOString();
+  }
+  return {
+    from: from && new Date(from).toISOString(),
+    to: end && new Date(end).toISOString(),
+  };
+}
+
+app.get("/api/generations", (req: any, res: any) => {
+  const parsed = GenerationQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.message });
+  }
+  const user: AuthUser = req.user;
+  const { from, to, userId, ...filter } = parsed.data;
+  const generations = listGenerations({
+    ...filter,
+    userId: user.role === "admin" ? userId : user.id,
+    ...toTimeRange(from, to),
+  });
+  res.json({ generations: generations.map(presentGeneration) });
+});
+
+// Looks up a generation the user may see, answering 404/403 otherwise
+function findGeneration(req: any, res: any) {
+  const generation = getGeneration(req.params.id);
+  if (!generation) {
+    res.status(404).json({ error: "Generation not found" });
+  } else if (!canAccess(req.user, generation.userId)) {
+    res.status(403).json({ error: "You don't have access to this generation" });
+  } else {
+    return generation;
+  }
+}
+
+app.get("/api/generations/:id", (req: any, res: any) => {
+  const generation = findGeneration(req, res);
+  if (!generation) return;
+  res.json(presentGeneration(generation));
+});
+
+// Removes the record together with every stored artifact of the generation.
+// Refinements reuse their parent's artifacts, so those go first.
+app.delete("/api/generations/:id", async (req: any, res: any) => {
+  if (!findGeneration(req, res)) return;
+  if (
+    listGenerations({ parentId: req.params.id, limit: 1, offset: 0 }).length
+  ) {
+    return res
+      .status(409)
+      .json({ error: "Delete the refined versions of this generation first" });
+  }
+  await removeJobArtifacts(req.params.id);
+  deleteGeneration(req.params.id);
+  res.status(204).end();
+});
+
+// Re-run one stage of a finished generation; the result is saved as a new
+// version linked to it
+app.post(
+  "/api/generations/:id/refine",
+  limitGenerations,
+  async (req: any, res: any) => {
+    const user: AuthUser = req.user;
+    const parent = findGeneration(req, res);
+    if (!parent) return;
+    const parsed = RefineRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.message });
+    }
+    const { stage, narration, visualPrompt, style, brandKit, music, webhook } =
+      parsed.data;
+    if (style && !getStyle(style)) {
+      return res.status(400).json({ error: `Unknown style "${style}"` });
+    }
+    if (brandKit && !getBrandKit(brandKit)) {
+      return res.status(400).json({ error: `Unknown brand kit "${brandKit}"` });
+    }
+    if (music && !getMusicTrack(music)) {
+      return res.status(400).json({ error: `Unknown music track "${music}"` });
+    }
+    const unreachable = webhook && (await checkWebhookUrl(webhook.url));
+    if (unreachable) {
+      return res.status(400).json({ error: unreachable });
+    }
+    if (narration && stage !== "narration") {
+      return res
+        .status(400)
+        .json({ error: "Narration can only be given for the narration stage" });
+    }
+    if (visualPrompt && stage !== "image") {
+      return res.status(400).json({
+        error: "A visual prompt can only be given for the image stage",
+      });
+    }
+    if (parent.result.storyboard && (stage === "image" || stage === "video")) {
+      return res.status(400).json({
+        error:
+          "Only the narration and voiceover of a storyboard can be refined; re-run the storyboard to change its scenes",
+      });
+    }
+    if (stage === "video" && !parent.result.imagePath) {
+      return res.status(400).json({
+        error:
+          "The generation has no saved keyframe; refine the image stage instead",
+      });
+    }
+    const edits = [narration, visualPrompt].filter(
+      (text): text is string => !!text
     );
-    res.json(output);
-  } catch (error) {
-    console.error("[API] Error in video generation:", error);
-    res.status(500).json({
-      error:
-        error instanceof Error ? error.message : "Failed to generate video",
+    const verdict = edits.length ? screenPrompt(...edits) : { allowed: true };
+    if (!verdict.allowed) {
+      return res.status(422).json({
+        error: "Edit violates the content policy",
+        moderation: verdict,
+      });
+    }
+
+    const job = enqueueJob(parent.prompt, user.id, async (job, signal) => {
+      console.log(
+        `[API] Job ${job.id}: refining the ${stage} of ${parent.id}...`
+      );
+      updateJob(job.id, { style: style ?? parent.style });
+      const result = await refineGeneration({
+        generationId: parent.id,
+        prompt: parent.prompt,
+        parent: parent.result,
+        stage,
+        narration,
+        visualPrompt,
+        style,
+        options: {
+          ...GENERATION_OPTIONS,
+          brandKit,
+          music,
+          signal,
+          usage: createUsageMeter({ jobId: job.id, userId: user.id }),
+        },
+        jobId: job.id,
+      });
+      updateJob(job.id, { result });
+      recordGeneration({
+        id: job.id,
+        userId: user.id,
+        prompt: parent.prompt,
+        result,
+        createdAt: job.createdAt,
+      });
+      return undefined;
     });
+    updateJob(job.id, { webhook: webhook ?? user.webhook });
+    recordQuotaUsage(user.id, job.id);
+
+    console.log(`[API] Queued job ${job.id} refining ${parent.id}`);
+    res.status(202).json(presentJob(job));
+  }
+);
+
+// Spend from the usage ledger, failed and cancelled jobs included
+const UsageQuerySchema = z.object({
+  // Comma-separated subset of user, style and day
+  groupBy: z
+    .string()
+    .default("user,style,day")
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(["user", "style", "day"]))),
+  // Admins only; everyone else sees their own usage
+  userId: z.string().optional(),
+  from: DateBoundSchema,
+  to: DateBoundSchema,
+});
+
+app.get("/api/usage", (req: any, res: any) => {
+  const parsed = UsageQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.message });
+  }
+  const user: AuthUser = req.user;
+  const { groupBy, userId, from, to } = parsed.data;
+  const { currency, totalCost, rows } = summarizeUsage({
+    groupBy,
+    userId: user.role === "admin" ? userId : user.id,
+    ...toTimeRange(from, to),
+  });
+  res.json({ currency, totalCost, usage: rows });
+});
+
+app.get("/api/jobs/:id/events", (req: any, res: any) => {
+  if (!findJob(req, res)) return;
+  subscribeProgress(req.params.id, req, res);
+});
+
+// Jobs with a webhook POST their envelope to it once they stop running
+onJobFinished((job) => {
+  const event = jobEvent(job.status);
+  if (!job.webhook || !event) return;
+  sendWebhook({
+    jobId: job.id,
+    userId: job.userId,
+    target: job.webhook,
+    event,
+    data: presentJob(job),
+  });
+});
+
+// Deliveries of the caller's webhooks; ?status=dead is the dead-letter list
+const DeliveryQuerySchema = z.object({
+  status: z.enum(DELIVERY_STATUSES).optional(),
+});
+
+app.get("/api/webhooks/deliveries", (req: any, res: any) => {
+  const parsed = DeliveryQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.message });
+  }
+  const user: AuthUser = req.user;
+  res.json({
+    deliveries: listWebhookDeliveries({
+      userId: user.role === "admin" ? undefined : user.id,
+      status: parsed.data.status,
+    }),
+  });
+});
+
+// Send a delivery again. The envelope is rebuilt while the job or its
+// generation is still around, so media links in it are valid again.
+app.post("/api/webhooks/deliveries/:id/redeliver", (req: any, res: any) => {
+  const delivery = getWebhookDelivery(req.params.id);
+  if (!delivery) {
+    return res.status(404).json({ error: "Delivery not found" });
+  }
+  if (!canAccess(req.user, delivery.userId)) {
+    return res
+      .status(403)
+      .json({ error: "You don't have access to this delivery" });
   }
+  const job = getJob(delivery.jobId);
+  const generation = job ? undefined : getGeneration(delivery.jobId);
+  const data = job
+    ? presentJob(job)
+    : generation && presentGeneration(generation);
+  res.status(202).json(redeliverWebhook(delivery.id, data));
 });
 
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  resumeWebhookDeliveries();
 });
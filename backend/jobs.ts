@@ -0,0 +1,268 @@
+import { randomUUID } from "crypto";
+import { GenerationError, GenerationErrorCode } from "./errors";
+import type { AgentOutput, GenerationResult, VideoStyle } from "./generation";
+import { clearProgress, emitProgress } from "./progress";
+import type { WebhookTarget } from "./webhooks";
+
+// How long a finished job stays listed; its generation remains in history
+const JOB_TTL_MINUTES = Number(process.env.JOB_TTL_MINUTES) || 60;
+
+export const JOB_STATUSES = [
+  "queued",
+  "running",
+  "succeeded",
+  // Triage asked a clarifying question; reply through the job's session
+  "needs_input",
+  "failed",
+  "cancelled",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_STAGES = [
+  "queued",
+  "triage",
+  "narration",
+  "image",
+  "waiting_for_veo",
+  "video",
+  "download",
+  "voiceover",
+  "branding",
+  "soundtrack",
+  "captions",
+  "previews",
+  "done",
+] as const;
+
+export type JobStage = (typeof JOB_STAGES)[number];
+
+export type Job = {
+  id: string;
+  // Authenticated user that submitted the job
+  userId?: string;
+  prompt: string;
+  status: JobStatus;
+  stage: JobStage;
+  style?: VideoStyle;
+  filePaths: string[];
+  result?: GenerationResult;
+  // Final answer of the agents, when they ran
+  output?: AgentOutput;
+  // Conversation the job belongs to, and the question it stopped at
+  sessionId?: string;
+  question?: string;
+  error?: string;
+  errorCode?: GenerationErrorCode;
+  errorDetails?: Record<string, unknown>;
+  // Where the outcome is POSTed once the job stops running
+  webhook?: WebhookTarget;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const jobs = new Map<string, Job>();
+
+// Called whenever a job stops running: succeeded, failed, cancelled or
+// waiting for a reply
+const finishListeners: ((job: Job) => void)[] = [];
+
+export function onJobFinished(listener: (job: Job) => void) {
+  finishListeners.push(listener);
+}
+
+// Abort controllers of jobs that haven't finished yet
+const controllers = new Map<string, AbortController>();
+
+// Finished jobs and their event history are dropped once they expire;
+// queued and running ones stay
+function sweepJobs() {
+  const cutoff = new Date(Date.now() - JOB_TTL_MINUTES * 60_000).toISOString();
+  for (const job of jobs.values()) {
+    if (!controllers.has(job.id) && job.updatedAt <= cutoff) {
+      console.log(`[JOBS] Job ${job.id} expired`);
+      jobs.delete(job.id);
+      clearProgress(job.id);
+    }
+  }
+}
+
+export function getJob(id: string): Job | undefined {
+  sweepJobs();
+  return jobs.get(id);
+}
+
+// Newest jobs first
+export function listJobs(): Job[] {
+  sweepJobs();
+  return [...jobs.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+// Jobs of the user that are queued or running
+export function countActiveJobs(userId: string): number {
+  return [...jobs.values()].filter(
+    (job) =>
+      job.userId === userId &&
+      (job.status === "queued" || job.status === "running")
+  ).length;
+}
+
+export function updateJob(id: string | undefined, patch: Partial<Job>) {
+  if (!id) return;
+  const job = jobs.get(id);
+  if (!job) return;
+  Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+}
+
+export function setJobStage(id: string | undefined, stage: JobStage) {
+  updateJob(id, { stage });
+}
+
+// Register a job and run its task in the background. The task result is
+// stored as the job output; the task itself reports stages and file paths
+// and should stop when the signal aborts. A task that sets a question on the
+// job instead of producing files leaves it waiting for the user's reply.
+export function enqueueJob(
+  prompt: string,
+  userId: string | undefined,
+  task: (job: Job, signal: AbortSignal) => Promise<AgentOutput | undefined>
+): Job {
+  sweepJobs();
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    userId,
+    prompt,
+    status: "queued",
+    stage: "queued",
+    filePaths: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs.set(job.id, job);
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  setImmediate(async () => {
+    updateJob(job.id, { status: "running" });
+    try {
+      controller.signal.throwIfAborted();
+      const output = await task(job, controller.signal);
+      if (job.filePaths.length === 0 && job.question) {
+        updateJob(job.id, { status: "needs_input", output });
+        emitProgress(job.id, {
+          type: "question",
+          question: job.question,
+          sessionId: job.sessionId,
+        });
+        console.log(`[JOBS] Job ${job.id} is waiting for a reply`);
+        return;
+      }
+      if (job.filePaths.length === 0) {
+        throw new Error(
+          typeof output === "string" && output
+            ? `No video was generated: ${output}`
+            : "No video was generated"
+        );
+      }
+      updateJob(job.id, { status: "succeeded", stage: "done", output });
+      emitProgress(job.id, {
+        type: "done",
+        style: job.style,
+        filePaths: job.filePaths,
+      });
+      console.log(`[JOBS] Job ${job.id} succeeded`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateJob(job.id, {
+          status: "cancelled",
+          error: "Job was cancelled",
+          errorCode: "cancelled",
+        });
+        emitProgress(job.id, {
+          type: "cancelled",
+          style: job.style,
+          stage: job.stage,
+        });
+        console.log(`[JOBS] Job ${job.id} cancelled`);
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Job failed";
+      const generationError =
+        error instanceof GenerationError ? error : undefined;
+      const errorCode = generationError?.code;
+      const errorDetails = generationError?.details;
+      updateJob(job.id, {
+        status: "failed",
+        error: message,
+        errorCode,
+        errorDetails,
+      });
+      emitProgress(job.id, {
+        type: "error",
+        style: job.style,
+        stage: job.stage,
+        error: message,
+        errorCode,
+        errorDetails,
+      });
+      console.error(`[JOBS] Job ${job.id} failed:`, error);
+    } finally {
+      controllers.delete(job.id);
+      for (const listener of finishListeners) {
+        try {
+          listener(job);
+        } catch (error) {
+          console.error(`[JOBS] Finish listener failed for ${job.id}:`, error);
+        }
+      }
+    }
+  });
+
+  return job;
+}
+
+// Ask a queued or running job to stop. Returns false when the job is unknown
+// or already finished; the job is marked cancelled once its task winds down.
+export function cancelJob(id: string): boolean {
+  const controller = controllers.get(id);
+  if (!controller) return false;
+  console.log(`[JOBS] Cancelling job ${id}`);
+  controller.abort(new GenerationError("cancelled", "Job was cancelled"));
+  return true;
+}
+
+// Caps how many tasks run at once; extra callers wait in FIFO order.
+export function createLimiter(max: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = () =>
+    new Promise<void>((resolve) => {
+      if (active < max) {
+        active++;
+        resolve();
+      } else {
+        waiting.push(resolve);
+      }
+    });
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return {
+    async run<T>(task: () => Promise<T>): Promise<T> {
+      await acquire();
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import jwt from "jsonwebtoken";
+import path from "path";
+import { randomBytes } from "crypto";
+import { STORAGE_DIR } from "./storage";
+
+// How long a signed media URL stays valid
+const MEDIA_URL_TTL_SECONDS = Number(process.env.MEDIA_URL_TTL_SECONDS) || 900;
+
+// Prefix for signed URLs, e.g. https://api.example.com; relative when unset
+const PUBLIC_URL = process.env.PUBLIC_URL ?? "";
+
+let tokenSecret: string | undefined;
+
+// Without a configured secret, links stop working when the server restarts
+function getTokenSecret(): string {
+  if (!tokenSecret) {
+    tokenSecret = process.env.MEDIA_TOKEN_SECRET;
+    if (!tokenSecret) {
+      console.warn(
+        "[MEDIA] MEDIA_TOKEN_SECRET is not set; using a random secret for this process"
+      );
+      tokenSecret = randomBytes(32).toString("hex");
+    }
+  }
+  return tokenSecret;
+}
+
+type MediaTokenPayload = { key: string };
+
+// Short-lived URL for a stored file under STORAGE_DIR; its path below the
+// directory is its storage key. The token is bound to the key, so it can't be
+// reused to fetch anything else.
+export function signMediaUrl(filePath: string): string {
+  const key = path.relative(STORAGE_DIR, filePath).split(path.sep).join("/");
+  const token = jwt.sign(
+    { key } satisfies MediaTokenPayload,
+    getTokenSecret(),
+    {
+      expiresIn: MEDIA_URL_TTL_SECONDS,
+    }
+  );
+  return `${PUBLIC_URL}/api/media/${encodeURI(key)}?token=${token}`;
+}
+
+// True when the token is valid, unexpired and was issued for this key
+export function verifyMediaToken(key: string, token: string): boolean {
+  try {
+    const payload = jwt.verify(token, getTokenSecret()) as MediaTokenPayload;
+    return payload.key === key;
+  } catch {
+    return false;
+  }
+}
+
+type EventsTokenPayload = { jobId: string };
+
+// Short-lived URL of a job's progress stream for EventSource, which can't send
+// an Authorization header; the token only opens this job's stream
+export function signEventsUrl(jobId: string): string {
+  const token = jwt.sign(
+    { jobId } satisfies EventsTokenPayload,
+    getTokenSecret(),
+    { expiresIn: MEDIA_URL_TTL_SECONDS }
+  );
+  return `${PUBLIC_URL}/api/jobs/${encodeURIComponent(
+    jobId
+  )}/events?token=${token}`;
+}
+
+// True when the token is valid, unexpired and was issued for this job
+export function verifyEventsToken(jobId: string, token: string): boolean {
+  try {
+    const payload = jwt.verify(token, getTokenSecret()) as EventsTokenPayload;
+    return payload.jobId === jobId;
+  } catch {
+    return false;
+  }
+}
+
+const isMediaPath = (value: string) =>
+  path.isAbsolute(value) && value.startsWith(STORAGE_DIR + path.sep);
+
+// Content-Disposition for serving a stored file inline under its original
+// name: an ASCII fallback in filename= with quotes and backslashes escaped,
+// and the exact name RFC 5987-encoded in filename*=
+export function inlineDisposition(name: string): string {
+  const fallback = name.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "\\$&");
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Copy of a job, result or event with every path under STORAGE_DIR replaced by
+// a signed URL, ready to hand to clients
+export function presentMedia<T>(value: T): T {
+  if (typeof value === "string") {
+    return (isMediaPath(value) ? signMediaUrl(value) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => presentMedia(item)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, presentMedia(item)])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+
+// One JSON or YAML file per track, next to its audio file
+export const MUSIC_DIR =
+  process.env.MUSIC_DIR || path.join(process.cwd(), "music");
+
+const TRACK_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export const MUSIC_TEMPOS = ["slow", "medium", "fast"] as const;
+
+export type MusicTempo = (typeof MUSIC_TEMPOS)[number];
+
+// Moods are free-form tags matched against each style's, e.g. "upbeat"
+const Mood = z.string().trim().toLowerCase().min(1);
+
+export const MusicTrackSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9-]*$/,
+      "Track names use lowercase letters, digits and dashes"
+    ),
+  title: z.string().min(1),
+  artist: z.string().optional(),
+  // Audio file relative to the music directory, e.g. "drive.mp3"
+  file: z.string().min(1),
+  moods: z.array(Mood).min(1),
+  tempo: z.enum(MUSIC_TEMPOS),
+  bpm: z.number().int().positive().optional(),
+  // Attribution or license terms for the track
+  license: z.string().optional(),
+});
+
+export type MusicTrack = z.infer<typeof MusicTrackSchema>;
+
+// Music level before mixing, in dB; ducking lowers it further under narration
+export const DEFAULT_MUSIC_VOLUME_DB = -12;
+
+// What a style wants from its music bed
+export const StyleMusicSchema = z.object({
+  moods: z.array(Mood).min(1),
+  tempo: z.enum(MUSIC_TEMPOS).optional(),
+  volumeDb: z.number().min(-40).max(0).default(DEFAULT_MUSIC_VOLUME_DB),
+});
+
+export type StyleMusic = z.infer<typeof StyleMusicSchema>;
+
+// Style agent tool argument; the model API needs nullable rather than optional
+export const MusicChoiceSchema = z
+  .string()
+  .nullable()
+  .describe(
+    "Name of the music track from your instructions that fits the video best, or null to leave the choice to the library"
+  );
+
+const tracks = new Map<string, MusicTrack>();
+
+function loadMusicLibrary() {
+  if (!fs.existsSync(MUSIC_DIR)) {
+    console.log(`[MUSIC] No music directory at ${MUSIC_DIR}`);
+    return;
+  }
+  for (const file of fs.readdirSync(MUSIC_DIR).sort()) {
+    if (!TRACK_FILE_EXTENSIONS.includes(path.extname(file))) continue;
+    const filePath = path.join(MUSIC_DIR, file);
+    try {
+      const contents = fs.readFileSync(filePath, "utf8");
+      const track = MusicTrackSchema.parse(
+        file.endsWith(".json") ? JSON.parse(contents) : YAML.parse(contents)
+      );
+      if (tracks.has(track.name)) {
+        throw new Error(`Duplicate track name "${track.name}"`);
+      }
+      if (!fs.existsSync(trackPath(track))) {
+        throw new Error(`Audio file not found: ${track.file}`);
+      }
+      tracks.set(track.name, track);
+    } catch (error) {
+      console.error(`[MUSIC] Skipping ${file}:`, error);
+    }
+  }
+  console.log(`[MUSIC] Loaded tracks: ${[...tracks.keys()].join(", ")}`);
+}
+
+loadMusicLibrary();
+
+export function listMusicTracks(): MusicTrack[] {
+  return [...tracks.values()];
+}
+
+export function getMusicTrack(name: string): MusicTrack | undefined {
+  return tracks.get(name);
+}
+
+// Absolute path of the track's audio
+export function trackPath(track: MusicTrack): string {
+  return path.resolve(MUSIC_DIR, track.file);
+}
+
+// Two points per shared mood, one for the tempo; 0 means no fit
+const matchScore = (track: MusicTrack, music: StyleMusic) =>
+  track.moods.filter((mood) => music.moods.includes(mood)).length * 2 +
+  (music.tempo && track.tempo === music.tempo ? 1 : 0);
+
+const scoredTracks = (music: StyleMusic) =>
+  listMusicTracks()
+    .map((track) => ({ track, score: matchScore(track, music) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+// Tracks that fit the style, best first
+export function rankMusicTracks(music: StyleMusic): MusicTrack[] {
+  return scoredTracks(music).map(({ track }) => track);
+}
+
+// Best-fitting track for the style. Ties are broken by the seed (e.g. the
+// narration) so different videos vary while a re-run picks the same track.
+export function selectMusicTrack(
+  music: StyleMusic,
+  seed: string
+): MusicTrack | undefined {
+  const ranked = scoredTracks(music);
+  const ties = ranked.filter(({ score }) => score === ranked[0]?.score);
+  if (ties.length === 0) return undefined;
+  const index = createHash("sha256").update(seed).digest().readUInt32BE(0);
+  return ties[index % ties.length].track;
+}
+
+// Track a generation is scored with: the requested one, none when the request
+// opts out with false, otherwise the best fit for styles that have music
+export function resolveMusicTrack(
+  requested: string | false | undefined,
+  music: StyleMusic | undefined,
+  seed: string
+): MusicTrack | undefined {
+  if (requested === false) return undefined;
+  if (requested) {
+    const track = getMusicTrack(requested);
+    if (!track) throw new Error(`Unknown music track "${requested}"`);
+    return track;
+  }
+  if (!music) return undefined;
+  const track = selectMusicTrack(music, seed);
+  if (!track) {
+    console.warn(
+      `[MUSIC] No track matches moods ${music.moods.join(", ")}; skipping music`
+    );
+  }
+  return track;
+}
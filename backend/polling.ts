@@ -0,0 +1,109 @@
+import { GenerationError } from "./errors";
+import { VideoOperation, VideoProvider } from "./providers";
+
+// Seconds between status checks while the operation is running
+const POLL_INTERVAL_MS =
+  (Number(process.env.VEO_POLL_INTERVAL_SECONDS) || 10) * 1000;
+// Overall deadline for one operation, queueing at the provider included
+const MAX_WAIT_MS = (Number(process.env.VEO_MAX_WAIT_SECONDS) || 600) * 1000;
+// Consecutive failed status checks tolerated before giving up
+const MAX_POLL_RETRIES = Number(process.env.VEO_POLL_RETRIES) || 5;
+const MAX_BACKOFF_MS = 60000;
+
+// Resolve after `ms`, or reject with the abort reason as soon as the signal fires
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Exponential backoff with full jitter: a random delay up to twice the
+// previous ceiling, so parallel jobs don't retry in lockstep
+function backoffDelay(failures: number): number {
+  const ceiling = Math.min(POLL_INTERVAL_MS * 2 ** failures, MAX_BACKOFF_MS);
+  return Math.random() * ceiling;
+}
+
+// Poll until the operation finishes, the deadline passes or the signal aborts.
+// Failed status checks are retried with backoff; a finished operation is
+// checked for provider errors, safety filtering and missing videos, and its
+// video URIs returned.
+export async function waitForVideo(
+  provider: VideoProvider,
+  operation: VideoOperation,
+  {
+    signal,
+    onPoll,
+  }: { signal?: AbortSignal; onPoll?: (pollCount: number) => void } = {}
+): Promise<string[]> {
+  const deadline = Date.now() + MAX_WAIT_MS;
+  let op = operation;
+  let pollCount = 0;
+  let failures = 0;
+
+  while (!op.done) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new GenerationError(
+        "timeout",
+        `Video generation did not finish within ${MAX_WAIT_MS / 1000}s`
+      );
+    }
+
+    pollCount++;
+    onPoll?.(pollCount);
+    const delay = failures > 0 ? backoffDelay(failures) : POLL_INTERVAL_MS;
+    await sleep(Math.min(delay, remaining), signal);
+
+    try {
+      op = await provider.pollVideo(op);
+      failures = 0;
+    } catch (error) {
+      signal?.throwIfAborted();
+      failures++;
+      if (failures > MAX_POLL_RETRIES) throw error;
+      console.error(
+        `[POLL] Status check failed (${failures}/${MAX_POLL_RETRIES}), retrying:`,
+        error
+      );
+    }
+  }
+
+  if (op.error) {
+    throw new GenerationError(
+      "operation_failed",
+      `Video generation failed: ${op.error}`
+    );
+  }
+  if (!op.videoUris || op.videoUris.length === 0) {
+    if (op.filteredReasons) {
+      throw new GenerationError(
+        "moderation",
+        `Video was blocked by safety filters${
+          op.filteredReasons.length ? `: ${op.filteredReasons.join("; ")}` : ""
+        }`
+      );
+    }
+    throw new GenerationError(
+      "no_videos",
+      "Video generation finished without returning any videos"
+    );
+  }
+  if (op.filteredReasons) {
+    console.error(
+      `[POLL] Some videos were blocked by safety filters: ${op.filteredReasons.join(
+        "; "
+      )}`
+    );
+  }
+  return op.videoUris;
+}
@@ -0,0 +1,73 @@
+import { randomUUID } from "crypto";
+import { extractFrame, probeMedia, renderAnimation } from "./ffmpeg";
+
+// gif plays everywhere; webp is a fraction of the size
+const PREVIEW_FORMAT = process.env.PREVIEW_FORMAT === "webp" ? "webp" : "gif";
+
+const THUMBNAIL_WIDTH = 480;
+const PREVIEW_WIDTH = 320;
+const PREVIEW_FRAME_RATE = 10;
+const PREVIEW_SECONDS = 3;
+
+// What the gallery shows about a video
+export type MediaMetadata = {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  videoCodec: string;
+  audioCodec?: string;
+  sizeBytes: number;
+};
+
+export type VideoPreview = {
+  videoPath: string;
+  // Frame from the middle of the video
+  thumbnailPath: string;
+  // Short looping animation from around the middle
+  previewPath: string;
+  media: MediaMetadata;
+};
+
+// Suffix that keeps files derived from the same video apart across jobs
+const uniqueSuffix = () => randomUUID().slice(0, 8);
+
+// Write a thumbnail and an animated preview next to the video and read its
+// metadata
+export async function renderPreviews(
+  videoPath: string,
+  signal?: AbortSignal
+): Promise<VideoPreview> {
+  const info = await probeMedia(videoPath, signal);
+  const duration = info.durationSeconds;
+  const basePath = videoPath.replace(/\.mp4$/, `_${uniqueSuffix()}`);
+  const thumbnailPath = `${basePath}_thumbnail.jpg`;
+  const previewPath = `${basePath}_preview.${PREVIEW_FORMAT}`;
+
+  await extractFrame(videoPath, thumbnailPath, {
+    atSeconds: duration / 2,
+    width: THUMBNAIL_WIDTH,
+    signal,
+  });
+  const previewSeconds = Math.min(PREVIEW_SECONDS, duration);
+  await renderAnimation(videoPath, previewPath, {
+    startSeconds: Math.max(0, (duration - previewSeconds) / 2),
+    durationSeconds: previewSeconds,
+    width: PREVIEW_WIDTH,
+    frameRate: PREVIEW_FRAME_RATE,
+    signal,
+  });
+
+  return {
+    videoPath,
+    thumbnailPath,
+    previewPath,
+    media: {
+      durationSeconds: duration,
+      width: info.video?.width ?? 0,
+      height: info.video?.height ?? 0,
+      videoCodec: info.video?.codec ?? "unknown",
+      audioCodec: info.audio?.codec,
+      sizeBytes: info.sizeBytes,
+    },
+  };
+}
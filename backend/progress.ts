@@ -0,0 +1,69 @@
+import SSE from "express-sse";
+import { presentMedia } from "./media";
+
+export type ProgressEventType =
+  | "triage"
+  | "storyboard"
+  | "narration"
+  | "image"
+  | "poll"
+  | "download"
+  | "voiceover"
+  | "branding"
+  | "soundtrack"
+  | "captions"
+  | "previews"
+  | "question"
+  | "done"
+  | "error"
+  | "cancelled";
+
+type ProgressEventInput = {
+  type: ProgressEventType;
+  style?: string;
+  [key: string]: unknown;
+};
+
+export type ProgressEvent = ProgressEventInput & { timestamp: string };
+
+type ProgressStream = { sse: SSE; history: ProgressEvent[] };
+
+const streams = new Map<string, ProgressStream>();
+
+function getStream(jobId: string): ProgressStream {
+  let stream = streams.get(jobId);
+  if (!stream) {
+    stream = { sse: new SSE([], { isSerialized: true }), history: [] };
+    streams.set(jobId, stream);
+  }
+  return stream;
+}
+
+// Push an event to everyone listening on the job. Past events are replayed
+// to late subscribers so a client that connects mid-run still sees triage.
+// Events go out as plain messages; clients switch on the `type` field.
+export function emitProgress(
+  jobId: string | undefined,
+  event: ProgressEventInput
+) {
+  if (!jobId) return;
+  const stream = getStream(jobId);
+  // File paths go out as signed media URLs
+  const payload = {
+    ...presentMedia(event),
+    timestamp: new Date().toISOString(),
+  };
+  stream.history.push(payload);
+  stream.sse.updateInit(stream.history);
+  stream.sse.send(payload);
+}
+
+// Express handler that subscribes the response to a job's event stream
+export function subscribeProgress(jobId: string, req: any, res: any) {
+  getStream(jobId).sse.init(req, res);
+}
+
+// Forget a job's events once the job itself is dropped
+export function clearProgress(jobId: string) {
+  streams.delete(jobId);
+}
@@ -0,0 +1,159 @@
+import {
+  AgentInputItem,
+  Model,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  Usage,
+} from "@openai/agents";
+
+// Scripted stand-in for the OpenAI model so the agent pipeline runs offline.
+// Agents with handoffs hand off once, agents with tools call their first tool
+// with arguments derived from the user's prompt, and every agent answers with
+// a short summary once its call has a result. Triage asks a clarifying
+// question when the first message is under three words and nobody replied.
+
+function textOf(item: AgentInputItem): string {
+  if (!("role" in item) || item.role !== "user") return "";
+  if (typeof item.content === "string") return item.content;
+  return item.content
+    .map((part) => ("text" in part ? part.text : ""))
+    .join(" ");
+}
+
+const callId = (name: string) => `fake_${name}`;
+
+// The parts of a JSON schema the fake arguments are derived from
+type JsonSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+};
+
+// Deterministic arguments matching a JSON schema: strings echo the prompt,
+// numbers are 8 and arrays hold two items
+function fakeArgs(schema: JsonSchema | undefined, prompt: string): unknown {
+  if (schema?.enum) return schema.enum[0];
+  switch (schema?.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          fakeArgs(value, prompt),
+        ])
+      );
+    case "array":
+      return [fakeArgs(schema.items, prompt), fakeArgs(schema.items, prompt)];
+    case "number":
+    case "integer":
+      return 8;
+    case "boolean":
+      return false;
+    default:
+      return prompt;
+  }
+}
+
+class FakeAgentModel implements Model {
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    const items: AgentInputItem[] =
+      typeof request.input === "string"
+        ? [{ role: "user", content: request.input }]
+        : request.input;
+    const messages = items.map(textOf).filter(Boolean);
+    const prompt = messages.join(" ");
+    const answered = new Set(
+      items
+        .filter((item) => item.type === "function_call_result")
+        .map((item) => ("callId" in item ? item.callId : ""))
+    );
+
+    const tool = request.tools.find((tool) => tool.type === "function");
+    const handoff =
+      request.handoffs.find((handoff) =>
+        prompt.toLowerCase().includes(handoff.toolName.split("_")[1] ?? "")
+      ) ?? request.handoffs[0];
+
+    const next =
+      handoff && !answered.has(callId(handoff.toolName))
+        ? {
+            name: handoff.toolName,
+            args: fakeArgs(handoff.inputJsonSchema, prompt),
+          }
+        : tool && tool.type === "function" && !answered.has(callId(tool.name))
+        ? { name: tool.name, args: fakeArgs(tool.parameters, prompt) }
+        : undefined;
+
+    const vague =
+      request.handoffs.length > 0 &&
+      messages.length === 1 &&
+      prompt.trim().split(/\s+/).length < 3;
+
+    const output: ModelResponse["output"] = vague
+      ? [
+          {
+            type: "message",
+            role: "assistant",
+            status: "completed",
+            content: [
+              {
+                type: "output_text",
+                text: `What should the video about "${prompt}" promote?`,
+              },
+            ],
+          },
+        ]
+      : next
+      ? [
+          {
+            type: "function_call",
+            callId: callId(next.name),
+            name: next.name,
+            arguments: JSON.stringify(next.args),
+            status: "completed",
+          },
+        ]
+      : [
+          {
+            type: "message",
+            role: "assistant",
+            status: "completed",
+            content: [
+              {
+                type: "output_text",
+                // Structured outputs get schema-shaped JSON, where booleans
+                // are false
+                text:
+                  request.outputType === "text"
+                    ? `Done: ${prompt}`
+                    : JSON.stringify(
+                        fakeArgs(request.outputType.schema, prompt)
+                      ),
+              },
+            ],
+          },
+        ];
+
+    // One "token" per character keeps usage accounting testable offline
+    const inputTokens = items.map(textOf).join("").length;
+    const outputTokens = JSON.stringify(output).length;
+    return {
+      usage: new Usage({
+        requests: 1,
+        inputTokens,
+        outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      }),
+      output,
+    };
+  }
+
+  async *getStreamedResponse(): AsyncIterable<never> {
+    throw new Error("The fake agent model does not support streaming");
+  }
+}
+
+export const fakeModelProvider: ModelProvider = {
+  getModel: () => new FakeAgentModel(),
+};
@@ -0,0 +1,137 @@
+import { createHash, randomUUID } from "crypto";
+import { readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { AspectRatio, outputEncoding, renderTestPattern } from "../ffmpeg";
+import {
+  ImageProvider,
+  SpeechProvider,
+  TextProvider,
+  VideoProvider,
+} from "./types";
+import { encodeWav } from "./wav";
+
+// Deterministic offline providers for CI and local development. Outputs are
+// derived from the input so repeated runs produce identical artifacts.
+
+// 1x1 transparent PNG
+const FAKE_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const digest = (value: string) =>
+  createHash("sha256").update(value).digest("hex").slice(0, 12);
+
+// Length of fake clips when the request doesn't set one, like Veo's
+const FAKE_VIDEO_SECONDS = 8;
+
+// Test pattern clips by "<aspect ratio>/<seconds>", rendered once per process
+const testPatterns = new Map<string, Promise<Buffer>>();
+
+function testPattern(aspectRatio: string, durationSeconds: number) {
+  const key = `${aspectRatio}/${durationSeconds}`;
+  let clip = testPatterns.get(key);
+  if (!clip) {
+    clip = (async () => {
+      const encoding = outputEncoding(aspectRatio as AspectRatio);
+      const filePath = path.join(os.tmpdir(), `fake_${randomUUID()}.mp4`);
+      try {
+        // Half the output size keeps rendering quick
+        await renderTestPattern(filePath, {
+          durationSeconds,
+          encoding: {
+            ...encoding,
+            width: encoding.width / 2,
+            height: encoding.height / 2,
+          },
+        });
+        return await readFile(filePath);
+      } finally {
+        await rm(filePath, { force: true });
+      }
+    })();
+    // A failed render is retried by the next fetch
+    clip.catch(() => testPatterns.delete(key));
+    testPatterns.set(key, clip);
+  }
+  return clip;
+}
+
+export const fakeTextProvider: TextProvider = {
+  name: "fake",
+  models: ["fake"],
+  async generateText(prompt) {
+    const text = `Fake narration ${digest(prompt)}. ${prompt.slice(0, 200)}`;
+    return {
+      text,
+      usage: { inputTokens: prompt.length, outputTokens: text.length },
+    };
+  },
+};
+
+export const fakeImageProvider: ImageProvider = {
+  name: "fake",
+  models: ["fake"],
+  async generateImage() {
+    return { imageBytes: FAKE_PNG, mimeType: "image/png" };
+  },
+};
+
+export const fakeVideoProvider: VideoProvider = {
+  name: "fake",
+  models: ["fake"],
+  aspectRatios: ["16:9", "9:16", "1:1"],
+  // Finishes after FAKE_VIDEO_POLLS polls (immediately by default) so the
+  // polling loop and cancellation can be exercised offline
+  async startVideo({ prompt, numberOfVideos, aspectRatio, durationSeconds }) {
+    const id = digest(prompt);
+    const seconds = durationSeconds ?? FAKE_VIDEO_SECONDS;
+    const videoUris = Array.from(
+      { length: numberOfVideos },
+      (_, i) =>
+        `fake://video/${id}/${
+          i + 1
+        }?aspectRatio=${aspectRatio}&seconds=${seconds}`
+    );
+    const pollsLeft = Number(process.env.FAKE_VIDEO_POLLS) || 0;
+    return pollsLeft > 0
+      ? { done: false, handle: { id, videoUris, pollsLeft } }
+      : { done: true, videoUris, handle: { id } };
+  },
+  async pollVideo(operation) {
+    const handle = operation.handle as {
+      id: string;
+      videoUris: string[];
+      pollsLeft: number;
+    };
+    const pollsLeft = handle.pollsLeft - 1;
+    return pollsLeft > 0
+      ? { done: false, handle: { ...handle, pollsLeft } }
+      : { done: true, videoUris: handle.videoUris, handle };
+  },
+  // Serves FAKE_VIDEO_FILE when set, otherwise an ffmpeg test pattern in the
+  // requested aspect ratio and length
+  async fetchVideo(uri) {
+    const { searchParams } = new URL(uri);
+    const body = process.env.FAKE_VIDEO_FILE
+      ? await readFile(process.env.FAKE_VIDEO_FILE)
+      : await testPattern(
+          searchParams.get("aspectRatio") ?? "16:9",
+          Number(searchParams.get("seconds")) || FAKE_VIDEO_SECONDS
+        );
+    return new Response(new Uint8Array(body), {
+      headers: { "content-type": "video/mp4" },
+    });
+  },
+};
+
+export const fakeSpeechProvider: SpeechProvider = {
+  name: "fake",
+  // Serves FAKE_SPEECH_FILE (a WAV fixture) when set, otherwise one second
+  // of silence
+  async synthesize() {
+    const audio = process.env.FAKE_SPEECH_FILE
+      ? await readFile(process.env.FAKE_SPEECH_FILE)
+      : encodeWav(Buffer.alloc(24000 * 2));
+    return { audio, extension: "wav" };
+  },
+};
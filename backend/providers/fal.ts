@@ -0,0 +1,165 @@
+import { fal } from "@fal-ai/client";
+import path from "path";
+import {
+  ImageProvider,
+  SpeechProvider,
+  TextProvider,
+  VideoOperation,
+  VideoProvider,
+  VoiceTone,
+} from "./types";
+
+// fal.ai reads FAL_KEY from the environment
+const TEXT_ENDPOINT = "fal-ai/any-llm";
+const VIDEO_ENDPOINT = "fal-ai/veo2/image-to-video";
+const SPEECH_ENDPOINT = "fal-ai/kokoro/american-english";
+
+const TEXT_MODELS = ["google/gemini-flash-1.5", "google/gemini-pro-1.5"];
+// fal exposes each image model as its own endpoint
+const IMAGE_ENDPOINTS = ["fal-ai/imagen3", "fal-ai/imagen3/fast"];
+
+type FalTextModel = "google/gemini-flash-1.5" | "google/gemini-pro-1.5";
+type FalImageEndpoint = "fal-ai/imagen3" | "fal-ai/imagen3/fast";
+type FalAspectRatio = "auto" | "16:9" | "9:16";
+
+type FalVideoHandle = { requestIds: string[] };
+
+export const falTextProvider: TextProvider = {
+  name: "fal",
+  models: TEXT_MODELS,
+  async generateText(prompt, model = TEXT_MODELS[0]) {
+    const { data } = await fal.subscribe(TEXT_ENDPOINT, {
+      input: { prompt, model: model as FalTextModel },
+    });
+    if (data.error) throw new Error(data.error);
+    // any-llm doesn't report token counts
+    return data.output ? { text: data.output } : undefined;
+  },
+};
+
+export const falImageProvider: ImageProvider = {
+  name: "fal",
+  models: IMAGE_ENDPOINTS,
+  async generateImage({ prompt, model = IMAGE_ENDPOINTS[0], aspectRatio }) {
+    const { data } = await fal.subscribe(model as FalImageEndpoint, {
+      input: {
+        prompt,
+        num_images: 1,
+        aspect_ratio: aspectRatio as "1:1" | "16:9" | "9:16" | undefined,
+      },
+    });
+    const url = data.images?.[0]?.url;
+    if (!url) return undefined;
+
+    // fal returns a hosted URL; the pipeline works with inline bytes
+    const res = await fetch(url);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch fal image: ${res.statusText}`);
+    }
+    return {
+      imageBytes: Buffer.from(await res.arrayBuffer()).toString("base64"),
+      mimeType: res.headers.get("content-type") ?? "image/png",
+    };
+  },
+};
+
+export const falVideoProvider: VideoProvider = {
+  name: "fal",
+  models: [VIDEO_ENDPOINT],
+  aspectRatios: ["16:9", "9:16"],
+  // The fal Veo endpoint returns one clip per request, so we submit one
+  // request per requested video and poll them together
+  async startVideo({
+    prompt,
+    image,
+    aspectRatio,
+    numberOfVideos,
+    durationSeconds,
+  }) {
+    const imageUrl = await fal.storage.upload(
+      new Blob([Buffer.from(image.imageBytes, "base64")], {
+        type: image.mimeType,
+      })
+    );
+
+    const requestIds: string[] = [];
+    for (let i = 0; i < numberOfVideos; i++) {
+      const { request_id } = await fal.queue.submit(VIDEO_ENDPOINT, {
+        input: {
+          prompt,
+          image_url: imageUrl,
+          aspect_ratio: aspectRatio as FalAspectRatio,
+          duration: durationSeconds
+            ? (`${durationSeconds}s` as "5s" | "6s" | "7s" | "8s")
+            : undefined,
+        },
+      });
+      requestIds.push(request_id);
+    }
+    return { done: false, handle: { requestIds } };
+  },
+  async pollVideo(operation): Promise<VideoOperation> {
+    const { requestIds } = operation.handle as FalVideoHandle;
+    const statuses = await Promise.all(
+      requestIds.map((requestId) =>
+        fal.queue.status(VIDEO_ENDPOINT, { requestId })
+      )
+    );
+    if (statuses.some((status) => status.status !== "COMPLETED")) {
+      return operation;
+    }
+
+    // A failed request only surfaces when its result is fetched
+    try {
+      const results = await Promise.all(
+        requestIds.map((requestId) =>
+          fal.queue.result(VIDEO_ENDPOINT, { requestId })
+        )
+      );
+      return {
+        done: true,
+        videoUris: results.map(({ data }) => data.video.url),
+        handle: operation.handle,
+      };
+    } catch (error) {
+      return {
+        done: true,
+        error: error instanceof Error ? error.message : String(error),
+        handle: operation.handle,
+      };
+    }
+  },
+  fetchVideo(uri, signal) {
+    return fetch(uri, { signal });
+  },
+};
+
+type KokoroVoice = "am_fenrir" | "af_heart" | "af_nicole";
+
+const VOICES: Record<VoiceTone, KokoroVoice> = {
+  energetic: "am_fenrir",
+  professional: "af_heart",
+  soft: "af_nicole",
+};
+
+export const falSpeechProvider: SpeechProvider = {
+  name: "fal",
+  async synthesize({ text, tone, voice }) {
+    const { data } = await fal.subscribe(SPEECH_ENDPOINT, {
+      input: {
+        prompt: text,
+        voice: (voice as KokoroVoice | undefined) ?? VOICES[tone],
+      },
+    });
+    const res = await fetch(data.audio.url);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch fal audio: ${res.statusText}`);
+    }
+    return {
+      audio: Buffer.from(await res.arrayBuffer()),
+      // From the URL's path, as signed and CDN URLs carry a query string
+      extension:
+        path.extname(new URL(data.audio.url).pathname).slice(1) || "wav",
+    };
+  },
+};
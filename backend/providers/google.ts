@@ -0,0 +1,131 @@
+import { GenerateVideosOperation, GoogleGenAI } from "@google/genai";
+import {
+  ImageProvider,
+  SpeechProvider,
+  TextProvider,
+  VideoOperation,
+  VideoProvider,
+  VoiceTone,
+} from "./types";
+import { encodeWav } from "./wav";
+
+const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+
+const TEXT_MODELS = ["gemini-2.5-flash", "gemini-2.5-pro", "gemini-2.0-flash"];
+const IMAGE_MODELS = [
+  "imagen-3.0-generate-002",
+  "imagen-4.0-generate-preview-06-06",
+];
+const VIDEO_MODELS = ["veo-2.0-generate-001", "veo-3.0-generate-preview"];
+
+const toVideoOperation = (op: GenerateVideosOperation): VideoOperation => ({
+  done: !!op.done,
+  videoUris: op.response?.generatedVideos
+    ?.map((video) => video.video?.uri)
+    .filter((uri): uri is string => !!uri),
+  error: op.error
+    ? String(op.error.message ?? JSON.stringify(op.error))
+    : undefined,
+  filteredReasons: op.response?.raiMediaFilteredCount
+    ? op.response.raiMediaFilteredReasons ?? []
+    : undefined,
+  handle: op,
+});
+
+export const googleTextProvider: TextProvider = {
+  name: "google",
+  models: TEXT_MODELS,
+  async generateText(prompt, model = TEXT_MODELS[0]) {
+    const res = await genAI.models.generateContent({
+      model,
+      contents: [prompt],
+    });
+    if (!res.text) return undefined;
+    return {
+      text: res.text,
+      usage: res.usageMetadata && {
+        inputTokens: res.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: res.usageMetadata.candidatesTokenCount ?? 0,
+      },
+    };
+  },
+};
+
+export const googleImageProvider: ImageProvider = {
+  name: "google",
+  models: IMAGE_MODELS,
+  async generateImage({ prompt, model = IMAGE_MODELS[0], aspectRatio }) {
+    const res = await genAI.models.generateImages({
+      model,
+      prompt,
+      config: { numberOfImages: 1, aspectRatio },
+    });
+    const image = res.generatedImages?.[0]?.image;
+    if (!image?.imageBytes) return undefined;
+    return {
+      imageBytes: image.imageBytes,
+      mimeType: image.mimeType ?? "image/png",
+    };
+  },
+};
+
+export const googleVideoProvider: VideoProvider = {
+  name: "google",
+  models: VIDEO_MODELS,
+  aspectRatios: ["16:9", "9:16"],
+  async startVideo({
+    prompt,
+    image,
+    model = VIDEO_MODELS[0],
+    aspectRatio,
+    numberOfVideos,
+    durationSeconds,
+  }) {
+    const op = await genAI.models.generateVideos({
+      model,
+      prompt,
+      image,
+      config: { aspectRatio, numberOfVideos, durationSeconds },
+    });
+    return toVideoOperation(op);
+  },
+  async pollVideo(operation) {
+    const op = await genAI.operations.getVideosOperation({
+      operation: operation.handle as GenerateVideosOperation,
+    });
+    return toVideoOperation(op);
+  },
+  // Veo download links need the API key appended
+  fetchVideo(uri, signal) {
+    return fetch(`${uri}&key=${process.env.GEMINI_API_KEY}`, { signal });
+  },
+};
+
+const VOICES: Record<VoiceTone, string> = {
+  energetic: "Puck",
+  professional: "Charon",
+  soft: "Sulafat",
+};
+
+export const googleSpeechProvider: SpeechProvider = {
+  name: "google",
+  async synthesize({ text, tone, voice }) {
+    const res = await genAI.models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [text],
+      config: {
+        responseModalities: ["AUDIO"],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice ?? VOICES[tone] },
+          },
+        },
+      },
+    });
+    const data = res.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!data) throw new Error("Failed to synthesize speech");
+
+    // Gemini returns raw 24kHz 16-bit mono PCM
+    return { audio: encodeWav(Buffer.from(data, "base64")), extension: "wav" };
+  },
+};
@@ -0,0 +1,97 @@
+import { setDefaultModelProvider, setTracingDisabled } from "@openai/agents";
+import { fakeModelProvider } from "./fake-agent";
+import {
+  fakeImageProvider,
+  fakeSpeechProvider,
+  fakeTextProvider,
+  fakeVideoProvider,
+} from "./fake";
+import {
+  falImageProvider,
+  falSpeechProvider,
+  falTextProvider,
+  falVideoProvider,
+} from "./fal";
+import {
+  googleImageProvider,
+  googleSpeechProvider,
+  googleTextProvider,
+  googleVideoProvider,
+} from "./google";
+import { localSpeechProvider } from "./local";
+import { Providers } from "./types";
+
+export * from "./types";
+
+const registry = {
+  google: {
+    text: googleTextProvider,
+    image: googleImageProvider,
+    video: googleVideoProvider,
+    speech: googleSpeechProvider,
+  },
+  fal: {
+    text: falTextProvider,
+    image: falImageProvider,
+    video: falVideoProvider,
+    speech: falSpeechProvider,
+  },
+  fake: {
+    text: fakeTextProvider,
+    image: fakeImageProvider,
+    video: fakeVideoProvider,
+    speech: fakeSpeechProvider,
+  },
+  // Offline engines that only cover some stages
+  local: {
+    speech: localSpeechProvider,
+  },
+} satisfies Record<string, Partial<Providers>>;
+
+type ProviderName = keyof typeof registry;
+
+function pick<K extends keyof Providers>(kind: K, name: string): Providers[K] {
+  if (!(name in registry)) {
+    throw new Error(
+      `Unknown ${kind} provider "${name}" (expected one of: ${Object.keys(
+        registry
+      ).join(", ")})`
+    );
+  }
+  const provider = (registry[name as ProviderName] as Partial<Providers>)[kind];
+  if (!provider) {
+    throw new Error(`Provider "${name}" has no ${kind} implementation`);
+  }
+  return provider;
+}
+
+// PROVIDER sets the default for every stage; TEXT_PROVIDER, IMAGE_PROVIDER,
+// VIDEO_PROVIDER and SPEECH_PROVIDER override it per stage.
+export function loadProviders(env = process.env): Providers {
+  const fallback = env.PROVIDER || "google";
+  return {
+    text: pick("text", env.TEXT_PROVIDER || fallback),
+    image: pick("image", env.IMAGE_PROVIDER || fallback),
+    video: pick("video", env.VIDEO_PROVIDER || fallback),
+    speech: pick("speech", env.SPEECH_PROVIDER || fallback),
+  };
+}
+
+// The agents SDK's default OpenAI model, used by the triage and style agents
+const DEFAULT_AGENT_MODEL = "gpt-4.1";
+
+// Name of the model behind the agents, as used in the rate table
+export function agentModelName(env = process.env): string {
+  return (env.AGENT_PROVIDER || env.PROVIDER) === "fake"
+    ? "fake"
+    : DEFAULT_AGENT_MODEL;
+}
+
+// AGENT_PROVIDER (or PROVIDER) set to "fake" swaps the OpenAI model behind the
+// triage and style agents for a scripted one, so no network is needed.
+export function configureAgentModel(env = process.env) {
+  if ((env.AGENT_PROVIDER || env.PROVIDER) !== "fake") return;
+  setDefaultModelProvider(fakeModelProvider);
+  setTracingDisabled(true);
+  console.log("[PROVIDERS] Using fake agent model");
+}
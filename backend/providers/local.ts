@@ -0,0 +1,28 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { SpeechProvider, VoiceTone } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+const VOICES: Record<VoiceTone, string> = {
+  energetic: "en-us+m3",
+  professional: "en-us",
+  soft: "en-us+f2",
+};
+
+// Offline text-to-speech through the espeak-ng command line tool
+export const localSpeechProvider: SpeechProvider = {
+  name: "local",
+  async synthesize({ text, tone, voice }) {
+    // The text goes on stdin: as an argument, narration starting with "-"
+    // would be read as options
+    const speaking = execFileAsync(
+      "espeak-ng",
+      ["--stdout", "--stdin", "-v", voice ?? VOICES[tone]],
+      { encoding: "buffer", maxBuffer: 64 * 1024 * 1024 }
+    );
+    speaking.child.stdin?.end(text);
+    const { stdout } = await speaking;
+    return { audio: stdout, extension: "wav" };
+  },
+};
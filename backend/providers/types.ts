@@ -0,0 +1,97 @@
+export type GeneratedImage = {
+  // Base64-encoded image data
+  imageBytes: string;
+  mimeType: string;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type GeneratedText = {
+  text: string;
+  // Token counts as reported by the provider, when it reports them
+  usage?: TokenUsage;
+};
+
+export type ImageRequest = {
+  prompt: string;
+  model?: string;
+  aspectRatio?: string;
+};
+
+export type VideoRequest = {
+  prompt: string;
+  image: GeneratedImage;
+  model?: string;
+  aspectRatio: string;
+  numberOfVideos: number;
+  durationSeconds?: number;
+};
+
+export type VideoOperation = {
+  done: boolean;
+  // Downloadable video locations, set once the operation is done
+  videoUris?: string[];
+  // Provider error message when the operation failed
+  error?: string;
+  // Reasons given when outputs were withheld by the provider's safety filters
+  filteredReasons?: string[];
+  // Provider-specific state needed to poll the operation again
+  handle: unknown;
+};
+
+// Provider-neutral voice character; each speech provider maps it to a voice
+export type VoiceTone = "energetic" | "professional" | "soft";
+
+export type SpeechRequest = {
+  text: string;
+  tone: VoiceTone;
+  // Provider-specific voice name, overriding the tone mapping
+  voice?: string;
+};
+
+export type SynthesizedSpeech = {
+  audio: Buffer;
+  // File extension matching the audio encoding, e.g. "wav" or "mp3"
+  extension: string;
+};
+
+// Models each provider accepts; the first one is the default
+export interface TextProvider {
+  name: string;
+  models: string[];
+  generateText(
+    prompt: string,
+    model?: string
+  ): Promise<GeneratedText | undefined>;
+}
+
+export interface ImageProvider {
+  name: string;
+  models: string[];
+  generateImage(request: ImageRequest): Promise<GeneratedImage | undefined>;
+}
+
+export interface VideoProvider {
+  name: string;
+  models: string[];
+  // Aspect ratios the model renders natively
+  aspectRatios: string[];
+  startVideo(request: VideoRequest): Promise<VideoOperation>;
+  pollVideo(operation: VideoOperation): Promise<VideoOperation>;
+  fetchVideo(uri: string, signal?: AbortSignal): Promise<Response>;
+}
+
+export interface SpeechProvider {
+  name: string;
+  synthesize(request: SpeechRequest): Promise<SynthesizedSpeech>;
+}
+
+export type Providers = {
+  text: TextProvider;
+  image: ImageProvider;
+  video: VideoProvider;
+  speech: SpeechProvider;
+};
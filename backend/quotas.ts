@@ -0,0 +1,117 @@
+import type { AuthUser } from "./auth";
+import { withTables } from "./db";
+import { countActiveJobs } from "./jobs";
+
+// Defaults for users whose API key doesn't set its own limits. Admins are
+// not subject to quotas, only to the rate limit.
+const QUOTA_VIDEOS_PER_DAY = Number(process.env.QUOTA_VIDEOS_PER_DAY) || 20;
+const QUOTA_CONCURRENT_JOBS = Number(process.env.QUOTA_CONCURRENT_JOBS) || 2;
+
+// Generation requests allowed per user within the sliding window
+const RATE_LIMIT_MAX_REQUESTS =
+  Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 5;
+const RATE_LIMIT_WINDOW_SECONDS =
+  Number(process.env.RATE_LIMIT_WINDOW_SECONDS) || 60;
+
+export type QuotaUsage = {
+  videosPerDay: number;
+  videosToday: number;
+  concurrentJobs: number;
+  activeJobs: number;
+  // Start of the next UTC day, when videosToday goes back to zero
+  resetsAt: string;
+};
+
+// One row per accepted job, whatever its outcome
+const getDb = withTables(`
+  CREATE TABLE IF NOT EXISTS quota_usage (
+    job_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS quota_usage_user_created_at
+    ON quota_usage (user_id, created_at);
+`);
+
+// Timestamps of recent generation requests per user
+const requestLog = new Map<string, number[]>();
+
+function startOfUtcDay(date: Date, offsetDays = 0): Date {
+  return new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() + offsetDays
+    )
+  );
+}
+
+export function getQuotaUsage(user: AuthUser): QuotaUsage {
+  const now = new Date();
+  const { count } = getDb()
+    .prepare(
+      "SELECT COUNT(*) AS count FROM quota_usage WHERE user_id = ? AND created_at >= ?"
+    )
+    .get(user.id, startOfUtcDay(now).toISOString()) as { count: number };
+  return {
+    videosPerDay: user.quotas.videosPerDay ?? QUOTA_VIDEOS_PER_DAY,
+    videosToday: count,
+    concurrentJobs: user.quotas.concurrentJobs ?? QUOTA_CONCURRENT_JOBS,
+    activeJobs: countActiveJobs(user.id),
+    resetsAt: startOfUtcDay(now, 1).toISOString(),
+  };
+}
+
+// Count an accepted job against the user's daily quota
+export function recordQuotaUsage(userId: string, jobId: string) {
+  getDb()
+    .prepare(
+      "INSERT INTO quota_usage (job_id, user_id, created_at) VALUES (?, ?, ?)"
+    )
+    .run(jobId, userId, new Date().toISOString());
+}
+
+const secondsUntil = (time: number) =>
+  Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+// Express middleware for generation requests: answers 429 with Retry-After
+// when the user is over the rate limit or one of their quotas. Runs after
+// authenticate; the handler records the job with recordQuotaUsage.
+export function limitGenerations(req: any, res: any, next: () => void) {
+  const user: AuthUser = req.user;
+  const now = Date.now();
+  const windowMs = RATE_LIMIT_WINDOW_SECONDS * 1000;
+  const recent = (requestLog.get(user.id) ?? []).filter(
+    (time) => time > now - windowMs
+  );
+  if (recent.length >= RATE_LIMIT_MAX_REQUESTS) {
+    requestLog.set(user.id, recent);
+    console.warn(`[QUOTA] Rate limit hit by ${user.id}`);
+    res.set("Retry-After", String(secondsUntil(recent[0] + windowMs)));
+    return res.status(429).json({
+      error: `Rate limit exceeded: ${RATE_LIMIT_MAX_REQUESTS} requests per ${RATE_LIMIT_WINDOW_SECONDS}s`,
+    });
+  }
+  recent.push(now);
+  requestLog.set(user.id, recent);
+
+  if (user.role === "admin") return next();
+  const usage = getQuotaUsage(user);
+  if (usage.activeJobs >= usage.concurrentJobs) {
+    console.warn(`[QUOTA] Concurrent job limit hit by ${user.id}`);
+    return res.status(429).json({
+      error: `Concurrent job limit reached: ${usage.concurrentJobs} at a time`,
+    });
+  }
+  if (usage.videosToday >= usage.videosPerDay) {
+    console.warn(`[QUOTA] Daily quota hit by ${user.id}`);
+    res.set(
+      "Retry-After",
+      String(secondsUntil(new Date(usage.resetsAt).getTime()))
+    );
+    return res.status(429).json({
+      error: `Daily quota reached: ${usage.videosPerDay} videos per day`,
+    });
+  }
+  next();
+}
@@ -1,364 +1,347 @@
 import "dotenv/config";
-import { GoogleGenAI } from "@google/genai";
-import { Agent, handoff, run, tool } from "@openai/agents";
-import { z } from "zod";
+import { AgentInputItem, getGlobalTraceProvider } from "@openai/agents";
+import { randomUUID } from "crypto";
 import fs from "fs/promises";
 import path from "path";
-import { createWriteStream } from "fs";
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
-const execAsync = promisify(exec);
-
-type VideoStyle = "hype" | "ad" | "cinematic";
-
-// Create temp directory if it doesn't exist
-const TEMP_DIR = "/tmp";
-
-async function ensureTempDir() {
-  try {
-    await fs.access(TEMP_DIR);
-  } catch {
-    await fs.mkdir(TEMP_DIR, { recursive: true });
-    console.log(`Created temp directory: ${TEMP_DIR}`);
-  }
-}
-
-// Download video from URI and save to file
-async function downloadVideo(uri: string, filename: string): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  const urlWithKey = `${uri}&key=${apiKey}`;
-
-  console.log(`Downloading video from: ${uri}`);
-
-  const response = await fetch(urlWithKey);
-  if (!response.ok) {
-    throw new Error(`Failed to download video: ${response.statusText}`);
-  }
-
-  const filePath = path.join(TEMP_DIR, filename);
-  const fileStream = createWriteStream(filePath);
-
-  if (!response.body) {
-    throw new Error("No response body");
-  }
-
-  const reader = response.body.getReader();
-
+import readline from "readline/promises";
+import { parseArgs } from "util";
+import {
+  AgentOutput,
+  GenerationOptions,
+  GenerationResult,
+  REFINE_STAGES,
+  RenderSettingsSchema,
+  generateStoryboardVideo,
+  refineGeneration,
+  runGeneration,
+} from "./generation";
+import { runBatch } from "./batch";
+import { getBrandKit, listBrandKits } from "./brands";
+import { getMusicTrack, listMusicTracks } from "./music";
+import { GenerationError } from "./errors";
+import { getGeneration, recordGeneration } from "./history";
+import { STORAGE_DIR } from "./storage";
+import { StoryboardSchema } from "./storyboard";
+import { getStyle, listStyles } from "./styles";
+import { createUsageMeter } from "./usage";
+
+// Read one line from the terminal; Ctrl-C while waiting cancels the run
+async function askUser(question: string, controller: AbortController) {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  rl.on("SIGINT", () =>
+    controller.abort(new GenerationError("cancelled", "Cancelled by user"))
+  );
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      fileStream.write(value);
-    }
+    return (await rl.question(question, { signal: controller.signal })).trim();
   } finally {
-    fileStream.end();
+    rl.close();
   }
-
-  console.log(`Video saved to: ${filePath}`);
-  return filePath;
 }
 
-async function generateVideo({
-  prompt,
-  style,
-  narrationPrompt,
-  visualPrompt,
-}: {
-  prompt: string;
-  style: VideoStyle;
-  narrationPrompt: string;
-  visualPrompt: string;
-}): Promise<{ videoPath: string; imagePath: string }> {
-  console.log(
-    `[${style.toUpperCase()}] Starting video generation for prompt: ${prompt}`
-  );
-
-  // Ensure temp directory exists
-  await ensureTempDir();
-
-  console.log(`[${style.toUpperCase()}] Generating narration...`);
-  const narrationRes = await genAI.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: [narrationPrompt],
-  });
+const GENERATION_OPTIONS: GenerationOptions = {
+  outputDir: STORAGE_DIR,
+  saveImage: true,
+  concatenate: true,
+  voiceover: true,
+  captions: true,
+  burnCaptions: true,
+  previews: true,
+};
 
-  const narration = narrationRes.text?.replace(/\*/g, "").trim();
-  if (!narration) {
-    console.error(`[${style.toUpperCase()}] Failed to generate narration text`);
-    throw new Error("Failed to generate narration text");
-  }
-  console.log(
-    `[${style.toUpperCase()}] Narration generated: ${narration.substring(
-      0,
-      100
-    )}...`
+function usage() {
+  console.error("Please provide a prompt as a command line argument");
+  console.error("Example: npm run gen-video 'my video prompt'");
+  console.error(
+    "Storyboard mode: npm run gen-video 'my video prompt' -- --storyboard"
   );
+  console.error(
+    "Force a style (skips triage): npm run gen-video 'my video prompt' -- --style hype"
+  );
+  console.error(
+    "Re-run a storyboard: npm run gen-video 'my video prompt' -- --storyboard-file board.json --style hype"
+  );
+  console.error(
+    "Settings: --aspect-ratio 16:9|9:16|1:1 --clips N --duration S --text-model M --image-model M --video-model M"
+  );
+  console.error(
+    "Branding: --brand-kit NAME, or --brand-kit none to leave a branded style unbranded"
+  );
+  console.error("Music: --music TRACK, or --music none for no music bed");
+  console.error(
+    `Refine one stage of a saved generation: npm run gen-video refine <generation-id> -- --stage ${REFINE_STAGES.join(
+      "|"
+    )} [--narration TEXT] [--visual-prompt TEXT] [--style NAME]`
+  );
+  console.error(
+    "Batch from a CSV or JSONL file of prompts: npm run gen-video batch prompts.csv -- [--concurrency N] [--manifest results.json]"
+  );
+  process.exit(1);
+}
 
-  console.log(`[${style.toUpperCase()}] Generating image...`);
-  const imageResp = await genAI.models.generateImages({
-    model: "imagen-3.0-generate-002",
-    prompt: visualPrompt,
-    config: { numberOfImages: 1 },
-  });
-
-  const image = imageResp.generatedImages?.[0]?.image;
-  if (!image?.imageBytes) {
-    console.error(`[${style.toUpperCase()}] Failed to generate image`);
-    throw new Error("Failed to generate image");
-  }
-  console.log(`[${style.toUpperCase()}] Image generated successfully`);
-
-  // Save image to file
-  const imagePath = path.join(TEMP_DIR, `${style}_image_${Date.now()}.png`);
-  const imageBuffer = Buffer.from(image.imageBytes, "base64");
-  await fs.writeFile(imagePath, imageBuffer);
-  console.log(`[${style.toUpperCase()}] Image saved to: ${imagePath}`);
-
-  console.log(`[${style.toUpperCase()}] Starting video generation with Veo...`);
-  let op = await genAI.models.generateVideos({
-    model: "veo-2.0-generate-001",
-    prompt: narration,
-    image: {
-      imageBytes: image.imageBytes,
-      mimeType: "image/png",
-    },
-    config: {
-      aspectRatio: "9:16",
-      numberOfVideos: 2,
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      storyboard: { type: "boolean", default: false },
+      "storyboard-file": { type: "string" },
+      style: { type: "string" },
+      "brand-kit": { type: "string" },
+      music: { type: "string" },
+      "aspect-ratio": { type: "string" },
+      clips: { type: "string" },
+      duration: { type: "string" },
+      "text-model": { type: "string" },
+      "image-model": { type: "string" },
+      "video-model": { type: "string" },
+      // refine subcommand
+      stage: { type: "string" },
+      narration: { type: "string" },
+      "visual-prompt": { type: "string" },
+      // batch subcommand
+      concurrency: { type: "string" },
+      manifest: { type: "string" },
     },
   });
 
-  let pollCount = 0;
-  while (!op.done) {
-    pollCount++;
-    console.log(
-      `[${style.toUpperCase()}] Waiting for video generation... (poll #${pollCount})`
-    );
-    await new Promise((r) => setTimeout(r, 10000));
-    op = await genAI.operations.getVideosOperation({ operation: op });
+  // `refine <generation-id>` re-runs one stage of a generation from the
+  // history instead of starting from a prompt
+  const refining = positionals[0] === "refine";
+  const parent = refining ? getGeneration(positionals[1] ?? "") : undefined;
+  if (refining && !parent) {
+    console.error(`Generation not found: ${positionals[1] ?? ""}`);
+    process.exit(1);
   }
-
-  const videos = op.response?.generatedVideos;
-  if (!videos || videos.length === 0) {
-    console.error(
-      `[${style.toUpperCase()}] Video generation failed - no videos returned`
-    );
-    throw new Error("Video generation failed");
+  const stage = REFINE_STAGES.find((stage) => stage === values.stage);
+  if (refining && !stage) usage();
+
+  // `batch <file>` generates a video per row; the other flags are defaults
+  // for columns a row leaves empty
+  const batching = positionals[0] === "batch";
+  const batchFile = batching ? positionals[1] : undefined;
+  const concurrency = Number(values.concurrency ?? 2);
+  if (
+    batching &&
+    (!batchFile || !Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    usage();
   }
 
-  // Download and save videos
-  const filePaths: string[] = [];
-  for (let i = 0; i < videos.length; i++) {
-    const uri = videos[i]?.video?.uri;
-    if (uri) {
-      console.log(
-        `[${style.toUpperCase()}] Video ${i + 1} URI generated: ${uri}`
-      );
-
-      // Generate filename with timestamp and style
-      const timestamp = Date.now();
-      const filename = `${style}_video_${timestamp}_${i + 1}.mp4`;
+  const prompt = parent?.prompt ?? positionals[0];
+  if (!prompt) usage();
 
-      try {
-        const filePath = await downloadVideo(uri, filename);
-        filePaths.push(filePath);
-        console.log(
-          `[${style.toUpperCase()}] Video ${i + 1} saved to: ${filePath}`
-        );
-      } catch (error) {
-        console.error(
-          `[${style.toUpperCase()}] Failed to download video ${i + 1}:`,
-          error
-        );
-        // Continue with other videos even if one fails
-      }
-    }
+  const storyboardFile = values["storyboard-file"];
+  const style = values.style;
+  if (style && !getStyle(style)) {
+    const names = listStyles().map((style) => style.name);
+    console.error(`Unknown style "${style}" (${names.join(", ")})`);
+    process.exit(1);
   }
-
-  if (filePaths.length === 0) {
-    throw new Error("Failed to download any videos");
+  if (storyboardFile && !style) {
+    console.error("--style is required with --storyboard-file");
+    process.exit(1);
   }
-
-  let finalVideoPath: string;
-
-  if (filePaths.length === 1) {
-    console.log(
-      `[${style.toUpperCase()}] Only one video downloaded, using as final output`
-    );
-    finalVideoPath = filePaths[0];
-  } else {
-    console.log(
-      `[${style.toUpperCase()}] Concatenating ${filePaths.length} videos...`
-    );
-
-    // Create concat list file
-    const listPath = path.join(TEMP_DIR, `${style}_concat_list.txt`);
-    const listContent = filePaths.map((p) => `file '${p}'`).join("\n");
-    await fs.writeFile(listPath, listContent);
-
-    // Concatenate videos using ffmpeg
-    finalVideoPath = path.join(TEMP_DIR, `${style}_final_${Date.now()}.mp4`);
-    const { stdout, stderr } = await execAsync(
-      `ffmpeg -f concat -safe 0 -i ${listPath} -c copy ${finalVideoPath}`
-    );
-
-    console.log(
-      `[${style.toUpperCase()}] Videos concatenated successfully: ${finalVideoPath}`
-    );
+  const brandKit: string | false | undefined =
+    values["brand-kit"] === "none" ? false : values["brand-kit"];
+  if (brandKit && !getBrandKit(brandKit)) {
+    const names = listBrandKits().map((kit) => kit.name);
+    console.error(`Unknown brand kit "${brandKit}" (${names.join(", ")})`);
+    process.exit(1);
+  }
+  const music: string | false | undefined =
+    values.music === "none" ? false : values.music;
+  if (music && !getMusicTrack(music)) {
+    const names = listMusicTracks().map((track) => track.name);
+    console.error(`Unknown music track "${music}" (${names.join(", ")})`);
+    process.exit(1);
   }
 
-  console.log(
-    `[${style.toUpperCase()}] Video generation complete - saved to ${finalVideoPath}`
-  );
-  return { videoPath: finalVideoPath, imagePath };
-}
-
-const PromptSchema = z.object({ prompt: z.string() });
-
-const createHypeAgent = () =>
-  new Agent<{ prompt: string }>({
-    name: "Hype Video Agent",
-    instructions:
-      "You create fast-paced, high-energy hype videos that get people pumped up. Use bold visuals and powerful, energetic narration.",
-    tools: [
-      tool({
-        name: "generate_hype_video",
-        description:
-          "Generate a fast-paced, high-energy hype video from a user prompt.",
-        parameters: PromptSchema,
-        execute: async ({ prompt }) => {
-          console.log(`[HYPE] Starting hype video generation for: ${prompt}`);
-          return await generateVideo({
-            prompt,
-            style: "hype",
-            narrationPrompt: `Create a high-octane, adrenaline-pumping voiceover script for: ${prompt}. Use short sentences, punchy verbs, and crowd-rallying phrases.`,
-            visualPrompt: `Design energetic, flashy visuals with quick cuts, bold typography, vibrant motion graphics, and fast transitions — all themed around: ${prompt}`,
-          });
-        },
-      }),
-    ],
-  });
-
-const createAdAgent = () =>
-  new Agent<{ prompt: string }>({
-    name: "Ad Video Agent",
-    instructions:
-      "You create professional, sleek promotional videos that highlight products, services, or ideas in a clean and marketable way.",
-    tools: [
-      tool({
-        name: "generate_ad_video",
-        description: "Generate a clean and polished promotional ad video.",
-        parameters: PromptSchema,
-        execute: async ({ prompt }) => {
-          console.log(`[AD] Starting ad video generation for: ${prompt}`);
-          return await generateVideo({
-            prompt,
-            style: "ad",
-            narrationPrompt: `Write a clear, persuasive product ad script for: ${prompt}. Focus on key features, benefits, and a strong call to action. Keep it brand-friendly and concise.`,
-            visualPrompt: `Sleek, minimal commercial visuals for: ${prompt}. Use clean lighting, product showcases, soft motion effects, and whitespace.`,
-          });
-        },
-      }),
-    ],
-  });
-
-const createCinematicAgent = () =>
-  new Agent<{ prompt: string }>({
-    name: "Cinematic Video Agent",
-    instructions:
-      "You create emotional, story-driven cinematic videos with a poetic tone and visually rich atmosphere.",
-    tools: [
-      tool({
-        name: "generate_cinematic_video",
-        description: "Generate a visually rich, emotional cinematic video.",
-        parameters: PromptSchema,
-        execute: async ({ prompt }) => {
-          console.log(
-            `[CINEMATIC] Starting cinematic video generation for: ${prompt}`
-          );
-          return await generateVideo({
-            prompt,
-            style: "cinematic",
-            narrationPrompt: `Craft a poetic, emotionally resonant script (3–5 lines) that captures the essence of: ${prompt}. Use metaphors, vivid imagery, and a soft, reflective tone.`,
-            visualPrompt: `Create visually cinematic, atmospheric visuals for: ${prompt}. Use slow motion, natural lighting, deep contrast, and wide shots to evoke emotion.`,
-          });
-        },
-      }),
-    ],
+  const settings = RenderSettingsSchema.safeParse({
+    aspectRatio: values["aspect-ratio"],
+    numberOfVideos: values.clips ? Number(values.clips) : undefined,
+    durationSeconds: values.duration ? Number(values.duration) : undefined,
+    textModel: values["text-model"],
+    imageModel: values["image-model"],
+    videoModel: values["video-model"],
   });
-
-const createTriageAgent = () => {
-  const HypeAgent = createHypeAgent();
-  const AdAgent = createAdAgent();
-  const CinematicAgent = createCinematicAgent();
-
-  return new Agent({
-    name: "Triage Agent",
-    instructions: `
-You are a video director assistant.
-Based on the user's input prompt, decide the best style and hand off:
-- Hype for excitement
-- Ad for product promotions
-- Cinematic for emotional stories`,
-    handoffs: [
-      handoff(HypeAgent, {
-        toolNameOverride: "use_hype_tool",
-        toolDescriptionOverride: "Send to hype video agent.",
-      }),
-      handoff(AdAgent, {
-        toolNameOverride: "use_ad_tool",
-        toolDescriptionOverride: "Send to ad video agent.",
-      }),
-      handoff(CinematicAgent, {
-        toolNameOverride: "use_cinematic_tool",
-        toolDescriptionOverride: "Send to cinematic video agent.",
-      }),
-    ],
+  if (!settings.success) {
+    console.error("Invalid settings:", settings.error.message);
+    process.exit(1);
+  }
+  // Ctrl-C cancels the generation; a second Ctrl-C exits immediately. The
+  // agents SDK installs its own SIGINT handler that exits straight away, so
+  // create it now and replace it.
+  const controller = new AbortController();
+  getGlobalTraceProvider();
+  process.removeAllListeners("SIGINT");
+  process.on("SIGINT", () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log("\n[SCRIPT] Cancelling video generation...");
+    controller.abort(new GenerationError("cancelled", "Cancelled by user"));
   });
-};
 
-async function main() {
-  if (!process.argv[2]) {
-    console.error("Please provide a prompt as a command line argument");
-    console.error("Example: npm run script 'my video prompt'");
-    process.exit(1);
+  if (batchFile) {
+    const batch = await runBatch({
+      file: batchFile,
+      manifestPath: values.manifest,
+      concurrency,
+      defaults: {
+        style,
+        storyboard: values.storyboard,
+        settings: settings.data,
+      },
+      options: {
+        ...GENERATION_OPTIONS,
+        brandKit,
+        music,
+        signal: controller.signal,
+      },
+    });
+    const count = (status: string) =>
+      batch.rows.filter((entry) => entry.status === status).length;
+    console.log(
+      `\n✅ BATCH: ${count("succeeded")} succeeded (${
+        batch.skipped
+      } from an earlier run), ${count("failed")} failed, ${
+        count("cancelled") + count("pending")
+      } not finished`
+    );
+    console.log("✅ MANIFEST:", batch.manifestPath);
+    process.exit(count("succeeded") === batch.rows.length ? 0 : 1);
   }
+  // Tags stored artifacts and usage so the run shows up in the generation
+  // history and usage reports
+  const generationId = randomUUID();
+  const createdAt = new Date().toISOString();
+
+  const options = {
+    ...GENERATION_OPTIONS,
+    settings: settings.data,
+    brandKit,
+    music,
+    signal: controller.signal,
+    usage: createUsageMeter({ jobId: generationId }),
+  };
 
-  const prompt = process.argv[2];
   console.log(`[SCRIPT] Starting video generation for prompt: ${prompt}`);
 
   try {
-    console.log("[SCRIPT] Initializing triage agent...");
-    const TriageAgent = createTriageAgent();
+    let result: GenerationResult | undefined;
+    let output: AgentOutput | undefined;
+    // The prompt and any answers to clarifying questions
+    const messages = [prompt];
 
-    console.log("[SCRIPT] Running agent with prompt...");
-    const result = await run(TriageAgent, prompt);
-    const output = await result.finalOutput;
-
-    if (!output) {
-      console.error("[SCRIPT] No output received from agent");
-      throw new Error("No output received from agent");
+    if (parent && stage) {
+      console.log(
+        `[SCRIPT] Refining the ${stage} of generation ${parent.id}...`
+      );
+      result = await refineGeneration({
+        generationId: parent.id,
+        prompt,
+        parent: parent.result,
+        stage,
+        narration: values.narration,
+        visualPrompt: values["visual-prompt"],
+        style,
+        options,
+        jobId: generationId,
+      });
+    } else if (storyboardFile && style) {
+      console.log(`[SCRIPT] Re-running storyboard from ${storyboardFile}...`);
+      const storyboard = StoryboardSchema.parse(
+        JSON.parse(await fs.readFile(storyboardFile, "utf8"))
+      );
+      result = await generateStoryboardVideo({
+        prompt,
+        style,
+        storyboard,
+        options,
+        jobId: generationId,
+      });
+    } else {
+      console.log("[SCRIPT] Running agent with prompt...");
+      let input: string | AgentInputItem[] = prompt;
+      for (;;) {
+        const run = await runGeneration(
+          input,
+          { ...options, style, storyboard: values.storyboard },
+          generationId
+        );
+        ({ result, output } = run);
+        // Triage asked a clarifying question; answer it when there's a
+        // terminal to ask on
+        if (result || typeof output !== "string" || !process.stdin.isTTY) {
+          break;
+        }
+        const reply = await askUser(`\n❓ ${output}\n> `, controller);
+        if (!reply) break;
+        messages.push(reply);
+        input = [...run.history, { role: "user", content: reply }];
+      }
     }
 
-    if (typeof output === "string") {
+    if (!result) {
       console.log("\n✅ FINAL OUTPUT:", output);
       console.log("No video was generated.");
     } else {
-      const videoOutput = output as { videoPath: string; imagePath: string };
-
-      if (videoOutput.videoPath && videoOutput.imagePath) {
-        console.log("\n✅ VIDEO GENERATED:", videoOutput.videoPath);
-        console.log("✅ IMAGE GENERATED:", videoOutput.imagePath);
-      } else if (videoOutput.imagePath) {
-        console.log("\n✅ IMAGE GENERATED:", videoOutput.imagePath);
-        console.log("❌ No video was generated.");
-      } else {
-        console.log("\n❌ No content was generated.");
+      recordGeneration({
+        id: generationId,
+        prompt: messages.join("\n"),
+        result,
+        createdAt,
+      });
+      console.log("\n✅ VIDEO GENERATED:", result.finalVideoPaths[0]);
+      console.log("✅ GENERATION ID:", generationId);
+      if (result.summary) console.log("✅ SUMMARY:", result.summary);
+      if (result.voiceoverPath) {
+        console.log("✅ VOICEOVER GENERATED:", result.voiceoverPath);
+      }
+      if (result.brandKit) console.log("✅ BRAND KIT:", result.brandKit);
+      if (result.music) console.log("✅ MUSIC:", result.music);
+      for (const files of result.captions ?? []) {
+        console.log("✅ CAPTIONS GENERATED:", files.srtPath, files.vttPath);
+      }
+      if (result.imagePath) {
+        console.log("✅ IMAGE GENERATED:", result.imagePath);
+      }
+      for (const preview of result.previews ?? []) {
+        console.log(
+          "✅ PREVIEWS GENERATED:",
+          preview.thumbnailPath,
+          preview.previewPath
+        );
+        console.log(
+          `✅ MEDIA: ${preview.media.durationSeconds.toFixed(1)}s ${
+            preview.media.width
+          }x${preview.media.height} ${preview.media.videoCodec}`
+        );
+      }
+      if (result.usage) {
+        console.log(
+          `✅ COST: ${result.usage.totalCost.toFixed(4)} ${
+            result.usage.currency
+          }`
+        );
+      }
+      if (result.storyboard) {
+        const storyboardPath = path.join(
+          STORAGE_DIR,
+          `${result.style}_storyboard_${Date.now()}.json`
+        );
+        await fs.writeFile(
+          storyboardPath,
+          JSON.stringify(result.storyboard, null, 2)
+        );
+        console.log("✅ STORYBOARD SAVED:", storyboardPath);
       }
     }
   } catch (error) {
+    if (controller.signal.aborted) {
+      console.error("[SCRIPT] Video generation cancelled");
+      process.exit(130);
+    }
     console.error("[SCRIPT] Error in video generation:", error);
     process.exit(1);
   }
@@ -369,4 +352,4 @@ if (require.main === module) {
     console.error("Fatal error:", err);
     process.exit(1);
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,119 @@
+import type { AgentInputItem } from "@openai/agents";
+import { randomUUID } from "crypto";
+import type { VideoStyle } from "./generation";
+import type { RenderSettingsInput } from "./settings";
+import type { WebhookTarget } from "./webhooks";
+
+// How long a clarifying question waits for its reply
+const SESSION_TTL_MINUTES = Number(process.env.SESSION_TTL_MINUTES) || 30;
+
+export type SessionStatus = "awaiting_reply" | "generating" | "done";
+
+// Request options a reply is generated with, as on the original request
+export type SessionRequest = {
+  style?: VideoStyle;
+  storyboard?: boolean;
+  settings?: RenderSettingsInput;
+  brandKit?: string | false;
+  music?: string | false;
+};
+
+// A conversation with the triage agent that stopped at a clarifying question
+export type Session = {
+  id: string;
+  userId?: string;
+  // The user's messages so far, joined
+  prompt: string;
+  status: SessionStatus;
+  question: string;
+  // Agent run history up to the question, replayed with each reply
+  history: AgentInputItem[];
+  request: SessionRequest;
+  // Webhook of the first request, reused by the jobs replies start
+  webhook?: WebhookTarget;
+  // Jobs run for this conversation, oldest first
+  jobIds: string[];
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+const sessions = new Map<string, Session>();
+
+const expiryFrom = (now: Date) =>
+  new Date(now.getTime() + SESSION_TTL_MINUTES * 60_000).toISOString();
+
+// Sessions are dropped once they expire, unless a reply is still generating
+function sweepSessions() {
+  const now = new Date().toISOString();
+  for (const session of sessions.values()) {
+    if (session.status !== "generating" && session.expiresAt <= now) {
+      console.log(`[SESSIONS] Session ${session.id} expired`);
+      sessions.delete(session.id);
+    }
+  }
+}
+
+export function getSession(id: string): Session | undefined {
+  sweepSessions();
+  return sessions.get(id);
+}
+
+// Start a session for a job's question, or record the next question of an
+// existing one
+export function askQuestion({
+  sessionId,
+  jobId,
+  userId,
+  prompt,
+  question,
+  history,
+  request,
+  webhook,
+}: {
+  sessionId?: string;
+  jobId: string;
+  userId?: string;
+  prompt: string;
+  question: string;
+  history: AgentInputItem[];
+  request: SessionRequest;
+  webhook?: WebhookTarget;
+}): Session {
+  const now = new Date();
+  const existing = sessionId ? sessions.get(sessionId) : undefined;
+  const session: Session = {
+    id: existing?.id ?? randomUUID(),
+    userId,
+    prompt,
+    status: "awaiting_reply",
+    question,
+    history,
+    request,
+    webhook,
+    jobIds: existing?.jobIds ?? [jobId],
+    createdAt: existing?.createdAt ?? now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: expiryFrom(now),
+  };
+  sessions.set(session.id, session);
+  console.log(`[SESSIONS] Session ${session.id} asked: ${question}`);
+  return session;
+}
+
+// Mark a session as answered by the given job
+export function replyToSession(id: string, jobId: string) {
+  const session = sessions.get(id);
+  if (!session) return;
+  session.status = "generating";
+  session.jobIds.push(jobId);
+  session.updatedAt = new Date().toISOString();
+}
+
+// The conversation ended, with a video or an error
+export function closeSession(id: string | undefined) {
+  const session = id ? sessions.get(id) : undefined;
+  if (!session) return;
+  session.status = "done";
+  session.updatedAt = new Date().toISOString();
+}
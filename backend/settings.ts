@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { Providers } from "./providers";
+
+// Aspect ratios we publish in: YouTube, Reels/Shorts and feeds
+export const ASPECT_RATIOS = ["16:9", "9:16", "1:1"] as const;
+
+const MAX_VIDEOS = 4;
+const MIN_DURATION_SECONDS = 5;
+const MAX_DURATION_SECONDS = 8;
+
+// Clip length the video models render (and bill) when none is requested
+export const DEFAULT_DURATION_SECONDS = MAX_DURATION_SECONDS;
+
+export type RenderSettings = {
+  aspectRatio: (typeof ASPECT_RATIOS)[number];
+  numberOfVideos: number;
+  durationSeconds?: number;
+  textModel: string;
+  imageModel: string;
+  videoModel: string;
+};
+
+// Allowed values for each setting given the configured providers
+export function describeCapabilities(providers: Providers) {
+  return {
+    providers: {
+      text: providers.text.name,
+      image: providers.image.name,
+      video: providers.video.name,
+      speech: providers.speech.name,
+    },
+    aspectRatios: ASPECT_RATIOS,
+    // Ratios the video model can't render natively are cropped afterwards
+    nativeAspectRatios: providers.video.aspectRatios,
+    numberOfVideos: { min: 1, max: MAX_VIDEOS, default: 2 },
+    durationSeconds: { min: MIN_DURATION_SECONDS, max: MAX_DURATION_SECONDS },
+    models: {
+      text: providers.text.models,
+      image: providers.image.models,
+      video: providers.video.models,
+    },
+  };
+}
+
+export type RenderSettingsInput = Partial<RenderSettings>;
+
+const modelOf = (models: string[]) =>
+  z.enum(models as [string, ...string[]]).optional();
+
+// Request-level settings, validated against the configured providers. Fields
+// left out stay unset so style defaults can fill them in.
+export function createRenderSettingsSchema(
+  providers: Providers
+): z.ZodType<RenderSettingsInput, z.ZodTypeDef, unknown> {
+  return z.object({
+    aspectRatio: z.enum(ASPECT_RATIOS).optional(),
+    numberOfVideos: z.number().int().min(1).max(MAX_VIDEOS).optional(),
+    durationSeconds: z
+      .number()
+      .int()
+      .min(MIN_DURATION_SECONDS)
+      .max(MAX_DURATION_SECONDS)
+      .optional(),
+    textModel: modelOf(providers.text.models),
+    imageModel: modelOf(providers.image.models),
+    videoModel: modelOf(providers.video.models),
+  });
+}
+
+// Layer settings over the provider defaults; later layers win and unset
+// fields fall through
+export function resolveRenderSettings(
+  providers: Providers,
+  ...layers: RenderSettingsInput[]
+): RenderSettings {
+  const settings: RenderSettings = {
+    aspectRatio: "9:16",
+    numberOfVideos: 2,
+    textModel: providers.text.models[0],
+    imageModel: providers.image.models[0],
+    videoModel: providers.video.models[0],
+  };
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) Object.assign(settings, { [key]: value });
+    }
+  }
+  return settings;
+}
@@ -0,0 +1,114 @@
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { withTables } from "../db";
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import { ArtifactKind, ArtifactMetadata, Storage } from "./types";
+
+export * from "./types";
+
+// Working directory for generation and root of the local driver
+export const STORAGE_DIR =
+  process.env.STORAGE_DIR || path.join(process.cwd(), "output");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".wav": "audio/wav",
+  ".mp3": "audio/mpeg",
+  ".srt": "application/x-subrip",
+  ".vtt": "text/vtt",
+};
+
+// STORAGE_DRIVER picks where artifacts end up: "local" (default) keeps them
+// in STORAGE_DIR, "s3" uploads them to S3_BUCKET
+export function loadStorage(env = process.env): Storage {
+  const driver = env.STORAGE_DRIVER || "local";
+  switch (driver) {
+    case "local":
+      return createLocalStorage(STORAGE_DIR);
+    case "s3":
+      return createS3Storage(env);
+    default:
+      throw new Error(
+        `Unknown storage driver "${driver}" (expected one of: local, s3)`
+      );
+  }
+}
+
+// Jobs using each stored artifact. Identical output of different jobs, e.g.
+// a refinement re-rendering its parent's voiceover, shares one key, so a file
+// is only deleted along with its last reference.
+const getDb = withTables(`
+  CREATE TABLE IF NOT EXISTS artifact_refs (
+    key TEXT NOT NULL,
+    job_id TEXT NOT NULL,
+    PRIMARY KEY (key, job_id)
+  );
+  CREATE INDEX IF NOT EXISTS artifact_refs_job_id ON artifact_refs (job_id);
+`);
+
+// Record that the job uses the stored artifact
+export function referenceArtifact(key: string, jobId: string) {
+  getDb()
+    .prepare("INSERT OR IGNORE INTO artifact_refs (key, job_id) VALUES (?, ?)")
+    .run(key, jobId);
+}
+
+// Drop the job's references and return the keys no other job still uses,
+// which the caller can delete
+export function releaseArtifacts(jobId: string): string[] {
+  const db = getDb();
+  return db.transaction(() => {
+    const keys = (
+      db
+        .prepare("SELECT key FROM artifact_refs WHERE job_id = ?")
+        .all(jobId) as { key: string }[]
+    ).map((row) => row.key);
+    db.prepare("DELETE FROM artifact_refs WHERE job_id = ?").run(jobId);
+    const inUse = db.prepare("SELECT 1 FROM artifact_refs WHERE key = ?");
+    return keys.filter((key) => !inUse.get(key));
+  })();
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+// Rename a finished file to its content-addressed key inside its directory
+// and store it with a metadata record. Identical content always lands on
+// the same key, so names never collide; the job is recorded as one of the
+// key's users. Returns the file's new local path.
+export async function storeArtifact(
+  storage: Storage,
+  filePath: string,
+  { kind, jobId, style }: { kind: ArtifactKind; jobId?: string; style?: string }
+): Promise<{ filePath: string; metadata: ArtifactMetadata }> {
+  const extension = path.extname(filePath);
+  const sha256 = await hashFile(filePath);
+  const key = `${sha256}${extension}`;
+  const storedPath = path.join(path.dirname(filePath), key);
+  await fs.rename(filePath, storedPath);
+
+  const metadata: ArtifactMetadata = {
+    key,
+    kind,
+    name: path.basename(filePath),
+    contentType: CONTENT_TYPES[extension] ?? "application/octet-stream",
+    size: (await fs.stat(storedPath)).size,
+    sha256,
+    createdAt: new Date().toISOString(),
+    jobId,
+    style,
+  };
+  await storage.put(key, storedPath, metadata);
+  if (jobId) referenceArtifact(key, jobId);
+  return { filePath: storedPath, metadata };
+}
@@ -0,0 +1,65 @@
+import fs from "fs/promises";
+import path from "path";
+import { createReadStream } from "fs";
+import { ArtifactMetadata, Storage } from "./types";
+
+const METADATA_SUFFIX = ".meta.json";
+
+// Stores artifacts as plain files under `root`, each with a JSON metadata
+// sidecar. Files already in place (the usual case, since generation works in
+// the same directory) are left where they are.
+export function createLocalStorage(root: string): Storage {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  const stat = async (key: string) => {
+    try {
+      return JSON.parse(
+        await fs.readFile(resolve(key) + METADATA_SUFFIX, "utf8")
+      ) as ArtifactMetadata;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    name: "local",
+    async put(key, filePath, metadata) {
+      const target = resolve(key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      if (path.resolve(filePath) !== target) {
+        await fs.copyFile(filePath, target);
+      }
+      await fs.writeFile(
+        target + METADATA_SUFFIX,
+        JSON.stringify(metadata, null, 2)
+      );
+    },
+    async get(key, range) {
+      return createReadStream(resolve(key), range);
+    },
+    stat,
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+      await fs.rm(resolve(key) + METADATA_SUFFIX, { force: true });
+    },
+    async list(prefix = "") {
+      const files = await fs.readdir(root, { recursive: true }).catch(() => []);
+      const keys = files
+        .map((file) => file.split(path.sep).join("/"))
+        .filter(
+          (file) => file.endsWith(METADATA_SUFFIX) && file.startsWith(prefix)
+        )
+        .map((file) => file.slice(0, -METADATA_SUFFIX.length));
+      const records = await Promise.all(keys.map(stat));
+      return records.filter(
+        (record): record is ArtifactMetadata => record !== undefined
+      );
+    },
+  };
+}
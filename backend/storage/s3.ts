@@ -0,0 +1,128 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import { Readable } from "stream";
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { ArtifactMetadata, Storage } from "./types";
+
+const METADATA_SUFFIX = ".meta.json";
+
+// Stores artifacts in an S3-compatible bucket with the metadata record as a
+// JSON object next to each one. S3_ENDPOINT points it at MinIO or another
+// S3-compatible server, using path-style addressing.
+export function createS3Storage(env = process.env): Storage {
+  const bucket = env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET is required for the s3 storage driver");
+  }
+  const client = new S3Client({
+    region: env.S3_REGION || "us-east-1",
+    endpoint: env.S3_ENDPOINT || undefined,
+    forcePathStyle: !!env.S3_ENDPOINT,
+    credentials:
+      env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+        ? {
+            accessKeyId: env.S3_ACCESS_KEY_ID,
+            secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+          }
+        : undefined,
+  });
+  // Optional folder inside the bucket
+  const prefix = env.S3_PREFIX ? `${env.S3_PREFIX.replace(/\/$/, "")}/` : "";
+
+  const getObject = async (key: string, range?: string) => {
+    const { Body } = await client.send(
+      new GetObjectCommand({ Bucket: bucket, Key: prefix + key, Range: range })
+    );
+    if (!Body) throw new Error(`Empty S3 object "${key}"`);
+    return Body as Readable;
+  };
+
+  const stat = async (key: string) => {
+    try {
+      const body = await getObject(key + METADATA_SUFFIX);
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) chunks.push(chunk);
+      return JSON.parse(
+        Buffer.concat(chunks).toString("utf8")
+      ) as ArtifactMetadata;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return undefined;
+      throw error;
+    }
+  };
+
+  return {
+    name: "s3",
+    async put(key, filePath, metadata) {
+      const { size } = await fs.stat(filePath);
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: prefix + key,
+          Body: createReadStream(filePath),
+          ContentLength: size,
+          ContentType: metadata.contentType,
+          Metadata: { sha256: metadata.sha256, kind: metadata.kind },
+        })
+      );
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: prefix + key + METADATA_SUFFIX,
+          Body: JSON.stringify(metadata, null, 2),
+          ContentType: "application/json",
+        })
+      );
+    },
+    get(key, range) {
+      return getObject(
+        key,
+        range ? `bytes=${range.start}-${range.end}` : undefined
+      );
+    },
+    stat,
+    async delete(key) {
+      await client.send(
+        new DeleteObjectsCommand({
+          Bucket: bucket,
+          Delete: {
+            Objects: [
+              { Key: prefix + key },
+              { Key: prefix + key + METADATA_SUFFIX },
+            ],
+          },
+        })
+      );
+    },
+    async list(keyPrefix = "") {
+      const keys: string[] = [];
+      let ContinuationToken: string | undefined;
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix + keyPrefix,
+            ContinuationToken,
+          })
+        );
+        for (const object of page.Contents ?? []) {
+          if (object.Key?.endsWith(METADATA_SUFFIX)) {
+            keys.push(object.Key.slice(prefix.length, -METADATA_SUFFIX.length));
+          }
+        }
+        ContinuationToken = page.NextContinuationToken;
+      } while (ContinuationToken);
+      const records = await Promise.all(keys.map(stat));
+      return records.filter(
+        (record): record is ArtifactMetadata => record !== undefined
+      );
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { Readable } from "stream";
+
+export type ArtifactKind =
+  | "image"
+  | "clip"
+  | "video"
+  | "voiceover"
+  | "captions"
+  | "thumbnail"
+  | "preview";
+
+// Record kept next to every stored artifact
+export type ArtifactMetadata = {
+  key: string;
+  kind: ArtifactKind;
+  // File name the artifact was produced under, for downloads
+  name: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  createdAt: string;
+  // Job that stored it last; every job using it is in artifact_refs
+  jobId?: string;
+  style?: string;
+};
+
+// Inclusive byte offsets, as in an HTTP Range header
+export type ByteRange = { start: number; end: number };
+
+export interface Storage {
+  name: string;
+  // Upload a local file under the key and record its metadata
+  put(key: string, filePath: string, metadata: ArtifactMetadata): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<Readable>;
+  // Metadata record for the key, or undefined when nothing is stored there
+  stat(key: string): Promise<ArtifactMetadata | undefined>;
+  delete(key: string): Promise<void>;
+  list(prefix?: string): Promise<ArtifactMetadata[]>;
+}
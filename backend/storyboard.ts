@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { MusicChoiceSchema } from "./music";
+
+// Veo renders clips between 5 and 8 seconds long
+export const SceneSchema = z.object({
+  visualPrompt: z
+    .string()
+    .min(1)
+    .describe("What the camera sees in this shot, used for keyframe and clip"),
+  narration: z.string().min(1).describe("Voiceover line spoken over the shot"),
+  durationSeconds: z
+    .number()
+    .int()
+    .min(5)
+    .max(8)
+    .describe("Shot length in seconds, from 5 to 8"),
+});
+
+export const StoryboardSchema = z.object({
+  scenes: z.array(SceneSchema).min(1).max(6),
+});
+
+export type Scene = z.infer<typeof SceneSchema>;
+export type Storyboard = z.infer<typeof StoryboardSchema>;
+
+// Tool parameters the style agents fill in. The model API only accepts plain
+// JSON schema types here, so the limits above are checked after the call.
+export const StoryboardToolSchema = z.object({
+  prompt: z.string(),
+  musicTrack: MusicChoiceSchema,
+  scenes: z.array(
+    z.object({
+      visualPrompt: z.string(),
+      narration: z.string(),
+      durationSeconds: z.number(),
+    })
+  ),
+});
@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { z } from "zod";
+import { TRANSITION_TYPES } from "./ffmpeg";
+import { StyleMusicSchema } from "./music";
+import { ASPECT_RATIOS } from "./settings";
+
+// One JSON or YAML file per style; new files are picked up on restart and
+// styles saved through the API are written back here
+const STYLES_DIR = process.env.STYLES_DIR || path.join(process.cwd(), "styles");
+
+const STYLE_FILE_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export const StyleDefinitionSchema = z.object({
+  // Becomes part of the agent tool names, so no spaces or underscores
+  name: z
+    .string()
+    .regex(
+      /^[a-z][a-z0-9-]*$/,
+      "Style names use lowercase letters, digits and dashes"
+    ),
+  // Tells the triage agent when to pick this style, e.g. "product promotions"
+  description: z.string().min(1),
+  // System prompt for the style agent
+  instructions: z.string().min(1),
+  // Description of the style agent's video tool
+  toolDescription: z.string().min(1),
+  // Prompt templates; {{prompt}} is replaced with the agent's prompt
+  narrationTemplate: z.string().includes("{{prompt}}"),
+  visualTemplate: z.string().includes("{{prompt}}"),
+  // Extra direction for the shot list in storyboard mode
+  storyboardGuidance: z.string().default(""),
+  voiceTone: z
+    .enum(["energetic", "professional", "soft"])
+    .default("professional"),
+  // ASS style overrides for burned-in captions
+  captionStyle: z.string().optional(),
+  // How clips are joined when merged into one video
+  transition: z
+    .object({
+      type: z.enum(TRANSITION_TYPES).default("cut"),
+      durationSeconds: z.number().positive().max(2).default(0.5),
+    })
+    .default({}),
+  // Put the default brand kit (logo, call to action, end card) on videos
+  // unless the request picks a kit or opts out
+  branding: z.boolean().default(false),
+  // Moods and tempo of the background music; no music when omitted
+  music: StyleMusicSchema.optional(),
+  // Render settings used when the request doesn't set them; model names are
+  // checked against the providers at generation time
+  defaults: z
+    .object({
+      aspectRatio: z.enum(ASPECT_RATIOS),
+      numberOfVideos: z.number().int(),
+      durationSeconds: z.number().int(),
+      textModel: z.string(),
+      imageModel: z.string(),
+      videoModel: z.string(),
+    })
+    .partial()
+    .default({}),
+});
+
+export type StyleDefinition = z.infer<typeof StyleDefinitionSchema>;
+
+type StyleEntry = { style: StyleDefinition; filePath: string };
+
+const styles = new Map<string, StyleEntry>();
+
+function parseStyleFile(filePath: string, contents: string): unknown {
+  return filePath.endsWith(".json")
+    ? JSON.parse(contents)
+    : YAML.parse(contents);
+}
+
+function loadStyles() {
+  if (!fs.existsSync(STYLES_DIR)) {
+    console.error(`[STYLES] Styles directory not found: ${STYLES_DIR}`);
+    return;
+  }
+  for (const file of fs.readdirSync(STYLES_DIR).sort()) {
+    if (!STYLE_FILE_EXTENSIONS.includes(path.extname(file))) continue;
+    const filePath = path.join(STYLES_DIR, file);
+    try {
+      const style = StyleDefinitionSchema.parse(
+        parseStyleFile(filePath, fs.readFileSync(filePath, "utf8"))
+      );
+      if (styles.has(style.name)) {
+        throw new Error(`Duplicate style name "${style.name}"`);
+      }
+      styles.set(style.name, { style, filePath });
+    } catch (error) {
+      console.error(`[STYLES] Skipping ${file}:`, error);
+    }
+  }
+  console.log(`[STYLES] Loaded styles: ${[...styles.keys()].join(", ")}`);
+}
+
+loadStyles();
+
+export function listStyles(): StyleDefinition[] {
+  return [...styles.values()].map((entry) => entry.style);
+}
+
+export function getStyle(name: string): StyleDefinition | undefined {
+  return styles.get(name)?.style;
+}
+
+// Create or replace a style, keeping the format of an existing file
+export async function saveStyle(style: StyleDefinition) {
+  const filePath =
+    styles.get(style.name)?.filePath ??
+    path.join(STYLES_DIR, `${style.name}.json`);
+  const contents = filePath.endsWith(".json")
+    ? `${JSON.stringify(style, null, 2)}\n`
+    : YAML.stringify(style);
+  await fs.promises.mkdir(STYLES_DIR, { recursive: true });
+  await fs.promises.writeFile(filePath, contents);
+  styles.set(style.name, { style, filePath });
+  console.log(`[STYLES] Saved ${style.name} to ${filePath}`);
+}
+
+export async function deleteStyle(name: string): Promise<boolean> {
+  const entry = styles.get(name);
+  if (!entry) return false;
+  await fs.promises.rm(entry.filePath, { force: true });
+  styles.delete(name);
+  console.log(`[STYLES] Deleted ${name}`);
+  return true;
+}
+
+export function renderTemplate(template: string, prompt: string): string {
+  return template.replace(/\{\{\s*prompt\s*\}\}/g, prompt);
+}
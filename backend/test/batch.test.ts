@@ -0,0 +1,162 @@
+import { TEST_DIR, hasFfmpeg } from "./helpers";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { test } from "node:test";
+import { BatchManifest, runBatch } from "../batch";
+
+const options = {
+  outputDir: path.join(TEST_DIR, "output"),
+  concatenate: true,
+};
+
+let fileCount = 0;
+function writeInput(extension: string, contents: string) {
+  const file = path.join(TEST_DIR, `batch-${++fileCount}${extension}`);
+  fs.writeFileSync(file, contents);
+  return file;
+}
+
+test("numbers the keys of identical rows so each runs once", async () => {
+  const file = writeInput(
+    ".csv",
+    "prompt,style\nA red car,no-such-style\nA red car,no-such-style\nA blue car,no-such-style\n"
+  );
+  const batch = await runBatch({
+    file,
+    concurrency: 2,
+    defaults: {},
+    options,
+  });
+
+  const [first, second, third] = batch.rows;
+  assert.equal(second.key, `${first.key}-2`);
+  assert.notEqual(third.key, first.key);
+  assert.ok(!third.key.endsWith("-2"));
+  assert.deepEqual(
+    batch.rows.map((entry) => entry.status),
+    ["failed", "failed", "failed"]
+  );
+  assert.match(first.error ?? "", /Unknown style "no-such-style"/);
+  assert.equal(batch.manifestPath, file.replace(/\.csv$/, ".manifest.json"));
+});
+
+test("keeps invalid rows in the manifest as failed", async () => {
+  const file = writeInput(
+    ".jsonl",
+    '{"prompt": "A red car", "style": "no-such-style"}\nnot json\n{"style": "hype"}\n'
+  );
+  const batch = await runBatch({ file, concurrency: 1, defaults: {}, options });
+  assert.deepEqual(
+    batch.rows.map((entry) => [entry.row, entry.status]),
+    [
+      [1, "failed"],
+      [2, "failed"],
+      [3, "failed"],
+    ]
+  );
+  assert.match(batch.rows[1].error ?? "", /Invalid JSON/);
+  assert.match(batch.rows[2].error ?? "", /prompt/);
+});
+
+test("skips rows an earlier manifest lists as succeeded", async () => {
+  const file = writeInput(
+    ".jsonl",
+    '{"id": "done", "prompt": "A red car", "style": "no-such-style"}\n{"id": "retry", "prompt": "A blue car", "style": "no-such-style"}\n'
+  );
+  const manifestPath = path.join(TEST_DIR, "resume.manifest.json");
+  const earlier: BatchManifest = {
+    input: file,
+    updatedAt: new Date().toISOString(),
+    rows: [
+      {
+        key: "done",
+        row: 1,
+        prompt: "A red car",
+        status: "succeeded",
+        generationId: "earlier-run",
+        videos: ["/videos/red.mp4"],
+        captions: [],
+      },
+      {
+        key: "retry",
+        row: 2,
+        prompt: "A blue car",
+        status: "failed",
+        videos: [],
+        captions: [],
+        error: "Provider timed out",
+      },
+    ],
+  };
+  fs.writeFileSync(manifestPath, JSON.stringify(earlier));
+
+  const batch = await runBatch({
+    file,
+    manifestPath,
+    concurrency: 1,
+    defaults: {},
+    options,
+  });
+
+  assert.equal(batch.skipped, 1);
+  // The succeeded row wasn't run again; running it would have failed on
+  // its unknown style
+  assert.deepEqual(batch.rows[0], earlier.rows[0]);
+  assert.equal(batch.rows[1].status, "failed");
+  assert.match(batch.rows[1].error ?? "", /Unknown style/);
+  const saved = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  assert.deepEqual(saved.rows, JSON.parse(JSON.stringify(batch.rows)));
+});
+
+test("finishes the batch when the manifest can't be written", async () => {
+  const file = writeInput(
+    ".csv",
+    "prompt,style\nA red car,no-such-style\nA blue car,no-such-style\n"
+  );
+  const batch = await runBatch({
+    file,
+    // Every write fails: the directory doesn't exist
+    manifestPath: path.join(TEST_DIR, "missing", "batch.manifest.json"),
+    concurrency: 2,
+    defaults: {},
+    options,
+  });
+  assert.deepEqual(
+    batch.rows.map((entry) => entry.status),
+    ["failed", "failed"]
+  );
+  assert.match(batch.rows[1].error ?? "", /Unknown style/);
+});
+
+test(
+  "resumes a batch after a real run without regenerating",
+  {
+    skip: !hasFfmpeg && "ffmpeg is not installed",
+  },
+  async () => {
+    const file = writeInput(
+      ".csv",
+      "prompt,style,numberOfVideos\nA cat surfing a wave,hype,1\n"
+    );
+    const first = await runBatch({
+      file,
+      concurrency: 1,
+      defaults: {},
+      options,
+    });
+    assert.equal(first.skipped, 0);
+    assert.equal(first.rows[0].status, "succeeded");
+    assert.equal(first.rows[0].videos.length, 1);
+    assert.ok(fs.existsSync(first.rows[0].videos[0]));
+
+    const second = await runBatch({
+      file,
+      concurrency: 1,
+      defaults: {},
+      options,
+    });
+    assert.equal(second.skipped, 1);
+    assert.equal(second.rows[0].generationId, first.rows[0].generationId);
+  }
+);
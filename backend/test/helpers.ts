@@ -0,0 +1,28 @@
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Imported first by every test file, before any backend module reads its
+// settings: the run uses the fake providers and a scratch directory for the
+// database and artifacts
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "backend-test-"));
+
+process.env.PROVIDER = "fake";
+process.env.STORAGE_DRIVER = "local";
+process.env.STORAGE_DIR = path.join(TEST_DIR, "output");
+process.env.DATABASE_PATH = path.join(TEST_DIR, "backend.db");
+process.env.MUSIC_DIR = path.join(TEST_DIR, "music");
+delete process.env.FAKE_VIDEO_FILE;
+delete process.env.FAKE_SPEECH_FILE;
+delete process.env.FAKE_VIDEO_POLLS;
+// Webhook tests use a receiver on loopback and can't wait seconds per retry
+process.env.WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+process.env.WEBHOOK_MAX_ATTEMPTS = "3";
+process.env.WEBHOOK_RETRY_BASE_SECONDS = "0.05";
+
+process.on("exit", () => fs.rmSync(TEST_DIR, { recursive: true, force: true }));
+
+// Media tests need ffmpeg and ffprobe; they're skipped where it's missing
+export const hasFfmpeg =
+  spawnSync(process.env.FFMPEG_PATH || "ffmpeg", ["-version"]).status === 0;
@@ -0,0 +1,21 @@
+import "./helpers";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { inlineDisposition } from "../media";
+
+test("content disposition keeps plain names as they are", () => {
+  assert.equal(
+    inlineDisposition("clip_1.mp4"),
+    "inline; filename=\"clip_1.mp4\"; filename*=UTF-8''clip_1.mp4"
+  );
+});
+
+test("content disposition escapes quotes and encodes other characters", () => {
+  const header = inlineDisposition('a"b\\c\r\nSet-Cookie: x=1 é.mp4');
+  assert.ok(!/[\r\n]/.test(header));
+  assert.match(header, /filename="a\\"b\\\\c__Set-Cookie: x=1 _\.mp4"/);
+  assert.match(
+    header,
+    /filename\*=UTF-8''a%22b%5Cc%0D%0ASet-Cookie%3A%20x%3D1%20%C3%A9\.mp4$/
+  );
+});
@@ -0,0 +1,51 @@
+import { TEST_DIR, hasFfmpeg } from "./helpers";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { test } from "node:test";
+import { probeMedia } from "../ffmpeg";
+import { runGeneration } from "../generation";
+
+const outputDir = path.join(TEST_DIR, "output");
+
+test(
+  "runs the agent pipeline offline with the fake providers",
+  {
+    skip: !hasFfmpeg && "ffmpeg is not installed",
+  },
+  async () => {
+    const { result, output } = await runGeneration("a cat surfing a wave", {
+      outputDir,
+      style: "hype",
+      saveImage: true,
+      concatenate: true,
+      voiceover: true,
+      captions: true,
+      previews: true,
+    });
+
+    assert.ok(result, "the style agent should have produced a result");
+    assert.equal(result.style, "hype");
+    assert.deepEqual(output, { summary: "a cat surfing a wave" });
+    assert.equal(result.clipPaths.length, result.settings.numberOfVideos);
+    assert.equal(result.finalVideoPaths.length, 1);
+    assert.ok(result.imagePath && fs.existsSync(result.imagePath));
+    assert.ok(result.voiceoverPath && fs.existsSync(result.voiceoverPath));
+    assert.equal(result.captions?.length, 1);
+    assert.equal(result.previews?.length, 1);
+
+    const media = await probeMedia(result.finalVideoPaths[0]);
+    assert.ok(media.video, "the final video should have a video stream");
+    assert.ok(media.audio, "the voiceover should be mixed in");
+    assert.ok(media.durationSeconds > 0);
+  }
+);
+
+test("stops at a clarifying question for a vague prompt", async () => {
+  const { result, output, history } = await runGeneration("cats", {
+    outputDir,
+  });
+  assert.equal(result, undefined);
+  assert.match(String(output), /\?$/);
+  assert.ok(history.length > 0);
+});
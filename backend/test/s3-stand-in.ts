@@ -0,0 +1,130 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+// In-memory stand-in for an S3-compatible server such as MinIO, covering the
+// calls the s3 storage driver makes with path-style addressing: PutObject,
+// GetObject (with Range), DeleteObjects and ListObjectsV2. Signatures aren't
+// checked.
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Body of an aws-chunked upload, which the SDK uses for streamed bodies:
+// "<hex size>[;chunk-signature=...]\r\n<data>\r\n" until a zero-size chunk,
+// followed by trailing checksum headers
+function decodeAwsChunked(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = body.indexOf("\r\n", offset);
+    const size = parseInt(
+      body.subarray(offset, lineEnd).toString().split(";")[0],
+      16
+    );
+    if (!size) break;
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function startS3StandIn(bucket: string) {
+  const objects = new Map<string, { body: Buffer; contentType?: string }>();
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    let body: Buffer = Buffer.concat(chunks);
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [, bucketName, ...rest] = url.pathname.split("/");
+    const key = decodeURIComponent(rest.join("/"));
+    const send = (status: number, xml = "") => {
+      res.writeHead(status, { "content-type": "application/xml" });
+      res.end(xml && `<?xml version="1.0" encoding="UTF-8"?>${xml}`);
+    };
+
+    if (bucketName !== bucket) {
+      return send(404, "<Error><Code>NoSuchBucket</Code></Error>");
+    }
+    if (req.method === "PUT" && key) {
+      if (
+        req.headers["x-amz-decoded-content-length"] ||
+        String(req.headers["content-encoding"]).includes("aws-chunked")
+      ) {
+        body = decodeAwsChunked(body);
+      }
+      objects.set(key, {
+        body,
+        contentType: req.headers["content-type"],
+      });
+      res.writeHead(200, { etag: '"stand-in"' });
+      return res.end();
+    }
+    if (req.method === "GET" && key) {
+      const object = objects.get(key);
+      if (!object) {
+        return send(
+          404,
+          `<Error><Code>NoSuchKey</Code><Key>${xmlEscape(key)}</Key></Error>`
+        );
+      }
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? "");
+      const data = range
+        ? object.body.subarray(Number(range[1]), Number(range[2]) + 1)
+        : object.body;
+      res.writeHead(range ? 206 : 200, {
+        "content-type": object.contentType ?? "application/octet-stream",
+        "content-length": data.length,
+      });
+      return res.end(data);
+    }
+    if (req.method === "POST" && url.searchParams.has("delete")) {
+      const keys = [...body.toString().matchAll(/<Key>(.*?)<\/Key>/g)].map(
+        (match) =>
+          match[1]
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&amp;/g, "&")
+      );
+      for (const deleted of keys) objects.delete(deleted);
+      return send(
+        200,
+        `<DeleteResult>${keys
+          .map(
+            (deleted) => `<Deleted><Key>${xmlEscape(deleted)}</Key></Deleted>`
+          )
+          .join("")}</DeleteResult>`
+      );
+    }
+    if (req.method === "GET" && url.searchParams.get("list-type") === "2") {
+      const prefix = url.searchParams.get("prefix") ?? "";
+      const keys = [...objects.keys()].filter((name) =>
+        name.startsWith(prefix)
+      );
+      return send(
+        200,
+        `<ListBucketResult><Name>${bucket}</Name><Prefix>${xmlEscape(
+          prefix
+        )}</Prefix><KeyCount>${
+          keys.length
+        }</KeyCount><IsTruncated>false</IsTruncated>${keys
+          .map(
+            (name) =>
+              `<Contents><Key>${xmlEscape(name)}</Key><Size>${
+                objects.get(name)?.body.length
+              }</Size></Contents>`
+          )
+          .join("")}</ListBucketResult>`
+      );
+    }
+    send(501, "<Error><Code>NotImplemented</Code></Error>");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
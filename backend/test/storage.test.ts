@@ -0,0 +1,165 @@
+import { TEST_DIR } from "./helpers";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { after, before, describe, test } from "node:test";
+import { removeJobArtifacts, storage } from "../generation";
+import {
+  ArtifactMetadata,
+  STORAGE_DIR,
+  Storage,
+  releaseArtifacts,
+  storeArtifact,
+} from "../storage";
+import { createLocalStorage } from "../storage/local";
+import { createS3Storage } from "../storage/s3";
+import { startS3StandIn } from "./s3-stand-in";
+
+const readAll = async (body: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) chunks.push(chunk);
+  return Buffer.concat(chunks).toString();
+};
+
+const metadataFor = (key: string, size: number): ArtifactMetadata => ({
+  key,
+  kind: "captions",
+  name: "captions.srt",
+  contentType: "application/x-subrip",
+  size,
+  sha256: "0".repeat(64),
+  createdAt: new Date().toISOString(),
+  jobId: "job-1",
+});
+
+// The same checks run against each driver
+function describeDriver(name: string, open: () => Promise<Storage>) {
+  describe(`${name} storage driver`, () => {
+    let driver: Storage;
+    const source = path.join(TEST_DIR, `${name}-source.srt`);
+
+    before(async () => {
+      driver = await open();
+      fs.writeFileSync(source, "0123456789");
+    });
+
+    test("puts a file with its metadata and reads it back", async () => {
+      await driver.put("a/one.srt", source, metadataFor("a/one.srt", 10));
+      assert.equal(await readAll(await driver.get("a/one.srt")), "0123456789");
+      assert.equal((await driver.stat("a/one.srt"))?.jobId, "job-1");
+    });
+
+    test("reads a byte range", async () => {
+      const body = await driver.get("a/one.srt", { start: 2, end: 4 });
+      assert.equal(await readAll(body), "234");
+    });
+
+    test("lists metadata by key prefix", async () => {
+      await driver.put("b/two.srt", source, metadataFor("b/two.srt", 10));
+      const keys = (await driver.list()).map((record) => record.key).sort();
+      assert.deepEqual(keys, ["a/one.srt", "b/two.srt"]);
+      assert.deepEqual(
+        (await driver.list("b/")).map((record) => record.key),
+        ["b/two.srt"]
+      );
+    });
+
+    test("deletes a file and its metadata", async () => {
+      await driver.delete("a/one.srt");
+      assert.equal(await driver.stat("a/one.srt"), undefined);
+      assert.deepEqual(
+        (await driver.list()).map((record) => record.key),
+        ["b/two.srt"]
+      );
+    });
+
+    test("reports missing keys as unstored", async () => {
+      assert.equal(await driver.stat("missing.srt"), undefined);
+    });
+  });
+}
+
+describeDriver("local", async () =>
+  createLocalStorage(path.join(TEST_DIR, "local-driver"))
+);
+
+describe("against an S3 stand-in", () => {
+  let standIn: Awaited<ReturnType<typeof startS3StandIn>>;
+  before(async () => {
+    standIn = await startS3StandIn("artifacts");
+  });
+  after(() => standIn.close());
+
+  describeDriver("s3", async () =>
+    createS3Storage({
+      S3_BUCKET: "artifacts",
+      S3_ENDPOINT: standIn.endpoint,
+      S3_ACCESS_KEY_ID: "test",
+      S3_SECRET_ACCESS_KEY: "test-secret",
+      S3_PREFIX: "outputs",
+    })
+  );
+
+  test("keeps objects under S3_PREFIX", () => {
+    assert.ok(
+      [...standIn.objects.keys()].every((key) => key.startsWith("outputs/"))
+    );
+  });
+});
+
+describe("content-addressed artifacts", () => {
+  const writeWorkingFile = (name: string, contents: string) => {
+    fs.mkdirSync(STORAGE_DIR, { recursive: true });
+    const filePath = path.join(STORAGE_DIR, name);
+    fs.writeFileSync(filePath, contents);
+    return filePath;
+  };
+
+  test("stores identical content of two jobs under one key", async () => {
+    const first = await storeArtifact(
+      storage,
+      writeWorkingFile("voice_a.srt", "same captions"),
+      { kind: "captions", jobId: "job-a" }
+    );
+    const second = await storeArtifact(
+      storage,
+      writeWorkingFile("voice_b.srt", "same captions"),
+      { kind: "captions", jobId: "job-b" }
+    );
+    assert.equal(first.metadata.key, second.metadata.key);
+    assert.match(first.metadata.key, /^[0-9a-f]{64}\.srt$/);
+    assert.equal(first.metadata.name, "voice_a.srt");
+  });
+
+  test("deletes a shared artifact only with its last job", async () => {
+    const { filePath, metadata } = await storeArtifact(
+      storage,
+      writeWorkingFile("shared.srt", "shared"),
+      { kind: "captions", jobId: "parent" }
+    );
+    await storeArtifact(storage, writeWorkingFile("copy.srt", "shared"), {
+      kind: "captions",
+      jobId: "refinement",
+    });
+    const own = await storeArtifact(
+      storage,
+      writeWorkingFile("own.srt", "parent only"),
+      { kind: "captions", jobId: "parent" }
+    );
+
+    await removeJobArtifacts("parent");
+    assert.ok(fs.existsSync(filePath), "the refinement still uses it");
+    assert.ok(await storage.stat(metadata.key));
+    assert.ok(!fs.existsSync(own.filePath));
+    assert.equal(await storage.stat(own.metadata.key), undefined);
+
+    await removeJobArtifacts("refinement");
+    assert.ok(!fs.existsSync(filePath));
+    assert.equal(await storage.stat(metadata.key), undefined);
+  });
+
+  test("releasing an unknown job deletes nothing", () => {
+    assert.deepEqual(releaseArtifacts("no-such-job"), []);
+  });
+});
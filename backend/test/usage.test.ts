@@ -0,0 +1,25 @@
+import { TEST_DIR } from "./helpers";
+import assert from "node:assert/strict";
+import path from "path";
+import { test } from "node:test";
+import { runGeneration } from "../generation";
+import { createUsageMeter } from "../usage";
+
+test("meters the agent and moderation runs", async () => {
+  const usage = createUsageMeter();
+  await runGeneration("dogs", {
+    outputDir: path.join(TEST_DIR, "output"),
+    usage,
+  });
+
+  const { entries } = usage.summary();
+  const agents = entries.find((entry) => entry.stage === "agents");
+  const moderation = entries.find((entry) => entry.stage === "moderation");
+  // Triage answered with a question: one model request, with the fake
+  // model's one token per character
+  assert.equal(agents?.requests, 1);
+  assert.equal(agents?.inputTokens, "dogs".length);
+  assert.ok(agents.outputTokens && agents.outputTokens > 0);
+  assert.equal(moderation?.requests, 1);
+  assert.equal(moderation?.inputTokens, "dogs".length);
+});
@@ -0,0 +1,101 @@
+import { TEST_DIR, hasFfmpeg } from "./helpers";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { test } from "node:test";
+import {
+  muxAudio,
+  outputEncoding,
+  probeMedia,
+  renderTestPattern,
+} from "../ffmpeg";
+import { loadProviders } from "../providers";
+import { localSpeechProvider } from "../providers/local";
+import { encodeWav } from "../providers/wav";
+
+const { speech } = loadProviders();
+
+// Fixture WAV: a second and a half of a 440 Hz tone at 24 kHz
+function writeToneFixture(filePath: string) {
+  const sampleRate = 24000;
+  const pcm = Buffer.alloc(sampleRate * 1.5 * 2);
+  for (let i = 0; i < pcm.length / 2; i++) {
+    const sample = Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 8000;
+    pcm.writeInt16LE(Math.round(sample), i * 2);
+  }
+  fs.writeFileSync(filePath, encodeWav(pcm, sampleRate));
+}
+
+test("fake speech is a second of silence without a fixture", async () => {
+  const { audio, extension } = await speech.synthesize({
+    text: "Hello",
+    tone: "energetic",
+  });
+  assert.equal(extension, "wav");
+  assert.equal(audio.subarray(0, 4).toString(), "RIFF");
+  // 44-byte header, then 24 kHz 16-bit mono
+  assert.equal(audio.length, 44 + 24000 * 2);
+});
+
+test("fake speech serves FAKE_SPEECH_FILE", async (t) => {
+  const fixture = path.join(TEST_DIR, "tone.wav");
+  writeToneFixture(fixture);
+  process.env.FAKE_SPEECH_FILE = fixture;
+  t.after(() => delete process.env.FAKE_SPEECH_FILE);
+
+  const { audio } = await speech.synthesize({
+    text: "Hello",
+    tone: "energetic",
+  });
+  assert.deepEqual(audio, fs.readFileSync(fixture));
+});
+
+test("local speech never reads narration as espeak-ng options", async (t) => {
+  // Stand-in espeak-ng that records its arguments and the text it was given
+  const bin = path.join(TEST_DIR, "bin");
+  fs.mkdirSync(bin, { recursive: true });
+  fs.writeFileSync(
+    path.join(bin, "espeak-ng"),
+    `#!/bin/sh\nprintf '%s\\n' "$@" > "${bin}/args"\ncat > "${bin}/stdin"\nprintf RIFF\n`,
+    { mode: 0o755 }
+  );
+  const originalPath = process.env.PATH;
+  process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+  t.after(() => (process.env.PATH = originalPath));
+
+  const narration = `-w${path.join(TEST_DIR, "overwritten.wav")} hello`;
+  const { audio } = await localSpeechProvider.synthesize({
+    text: narration,
+    tone: "soft",
+  });
+  assert.equal(audio.toString(), "RIFF");
+  assert.equal(fs.readFileSync(path.join(bin, "stdin"), "utf8"), narration);
+  assert.deepEqual(
+    fs.readFileSync(path.join(bin, "args"), "utf8").trim().split("\n"),
+    ["--stdout", "--stdin", "-v", "en-us+f2"]
+  );
+});
+
+test(
+  "muxes the voiceover onto the video, padded to its length",
+  {
+    skip: !hasFfmpeg && "ffmpeg is not installed",
+  },
+  async () => {
+    const fixture = path.join(TEST_DIR, "tone.wav");
+    writeToneFixture(fixture);
+    const videoPath = path.join(TEST_DIR, "silent.mp4");
+    const outputPath = path.join(TEST_DIR, "voiced.mp4");
+    await renderTestPattern(videoPath, {
+      durationSeconds: 3,
+      encoding: { ...outputEncoding("1:1"), width: 160, height: 160 },
+    });
+
+    await muxAudio(videoPath, fixture, outputPath);
+
+    const media = await probeMedia(outputPath);
+    assert.ok(media.video);
+    assert.equal(media.audio?.codec, "aac");
+    assert.ok(Math.abs(media.durationSeconds - 3) < 0.2);
+  }
+);
@@ -0,0 +1,216 @@
+import { TEST_DIR } from "./helpers";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import http from "http";
+import { AddressInfo } from "net";
+import path from "path";
+import { after, before, test } from "node:test";
+import {
+  WebhookDelivery,
+  checkWebhookUrl,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  redeliverWebhook,
+  resumeWebhookDeliveries,
+  sendWebhook,
+  signPayload,
+} from "../webhooks";
+
+type Received = {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  at: number;
+};
+
+// Records every POST and answers with `status`, so tests can make the
+// receiver fail and then fix it
+const receiver = { status: 200, received: [] as Received[] };
+let server: http.Server;
+let url: string;
+const secret = "supersecretsecret1";
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      receiver.received.push({ headers: req.headers, body, at: Date.now() });
+      res.writeHead(receiver.status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+after(() => server.close());
+
+// Polls the delivery until `done` holds for it
+async function waitFor(
+  id: string,
+  done: (delivery: WebhookDelivery) => boolean
+): Promise<WebhookDelivery> {
+  const deadline = Date.now() + 5000;
+  for (;;) {
+    const delivery = getWebhookDelivery(id);
+    assert.ok(delivery);
+    if (done(delivery)) return delivery;
+    assert.ok(
+      Date.now() < deadline,
+      `delivery ${id} stuck: ${delivery.status}`
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+const settled = (delivery: WebhookDelivery) => delivery.status !== "pending";
+
+test("signs the delivery so the receiver can verify it", async () => {
+  receiver.status = 200;
+  receiver.received = [];
+  const { id } = sendWebhook({
+    jobId: "job-signed",
+    userId: "user-1",
+    target: { url, secret },
+    event: "generation.succeeded",
+    data: { id: "job-signed", status: "succeeded" },
+  });
+
+  const delivery = await waitFor(id, settled);
+  assert.equal(delivery.status, "delivered");
+  assert.equal(delivery.attempts, 1);
+  assert.equal(delivery.lastStatusCode, 200);
+
+  const [{ headers, body }] = receiver.received;
+  assert.equal(headers["x-webhook-id"], id);
+  assert.equal(headers["x-webhook-event"], "generation.succeeded");
+  assert.equal(
+    headers["x-webhook-signature"],
+    signPayload(secret, Number(headers["x-webhook-timestamp"]), body)
+  );
+  assert.deepEqual(JSON.parse(body), {
+    id,
+    event: "generation.succeeded",
+    createdAt: delivery.createdAt,
+    data: { id: "job-signed", status: "succeeded" },
+  });
+});
+
+test("backs off between failed attempts and dead-letters the delivery", async () => {
+  receiver.status = 500;
+  receiver.received = [];
+  const { id } = sendWebhook({
+    jobId: "job-dead",
+    userId: "user-1",
+    target: { url, secret },
+    event: "generation.failed",
+    data: { id: "job-dead" },
+  });
+
+  const retrying = await waitFor(id, (delivery) => delivery.attempts >= 1);
+  assert.equal(retrying.status, "pending");
+  assert.equal(retrying.lastError, "Receiver answered 500");
+  assert.ok(retrying.nextAttemptAt);
+
+  // WEBHOOK_MAX_ATTEMPTS is 3 and the wait doubles from 50ms
+  const dead = await waitFor(id, settled);
+  assert.equal(dead.status, "dead");
+  assert.equal(dead.attempts, 3);
+  assert.equal(dead.lastStatusCode, 500);
+  assert.equal(dead.nextAttemptAt, undefined);
+  const [first, second, third] = receiver.received.map(({ at }) => at);
+  assert.equal(receiver.received.length, 3);
+  assert.ok(second - first >= 45, `first retry after ${second - first}ms`);
+  assert.ok(third - second >= 95, `second retry after ${third - second}ms`);
+  assert.ok(
+    listWebhookDeliveries({ userId: "user-1", status: "dead" }).some(
+      (delivery) => delivery.id === id
+    )
+  );
+
+  // Once the receiver is fixed the delivery goes through from the start
+  receiver.status = 204;
+  const redelivery = redeliverWebhook(id, { id: "job-dead", fresh: true });
+  assert.equal(redelivery?.status, "pending");
+  assert.equal(redelivery?.attempts, 0);
+  const delivered = await waitFor(id, settled);
+  assert.equal(delivered.status, "delivered");
+  assert.equal(delivered.attempts, 1);
+  assert.equal(delivered.lastError, undefined);
+  assert.deepEqual(JSON.parse(receiver.received[3].body).data, {
+    id: "job-dead",
+    fresh: true,
+  });
+});
+
+test("resumes deliveries left pending by a previous run", async () => {
+  receiver.status = 200;
+  receiver.received = [];
+  // Creates the table before another connection writes to it
+  listWebhookDeliveries({});
+  // A row as a server that stopped mid-retry leaves it, with no timer here
+  const db = new Database(path.join(TEST_DIR, "backend.db"));
+  db.prepare(
+    `INSERT INTO webhook_deliveries (
+      id, job_id, url, secret, event, payload, status, attempts,
+      last_error, next_attempt_at, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, 'pending', 1, ?, ?, ?)`
+  ).run(
+    "delivery-left-over",
+    "job-left-over",
+    url,
+    secret,
+    "generation.cancelled",
+    JSON.stringify({ id: "job-left-over" }),
+    "Receiver answered 503",
+    new Date(Date.now() - 1000).toISOString(),
+    new Date(Date.now() - 5000).toISOString()
+  );
+  db.close();
+
+  resumeWebhookDeliveries();
+  const delivery = await waitFor("delivery-left-over", settled);
+  assert.equal(delivery.status, "delivered");
+  assert.equal(delivery.attempts, 2);
+  assert.equal(receiver.received[0].headers["x-webhook-id"], delivery.id);
+});
+
+test("rejects webhook hosts on private networks", async () => {
+  for (const target of [
+    "http://localhost/hook",
+    "http://127.0.0.2/hook",
+    "http://10.0.0.1/hook",
+    "http://192.168.1.20/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://[fd00::1]/hook",
+    "http://[64:ff9b::a9fe:a9fe]/hook",
+    "http://[2002:a00:1::1]/hook",
+  ]) {
+    assert.match(
+      (await checkWebhookUrl(target)) ?? "",
+      /private address/,
+      target
+    );
+  }
+  assert.equal(await checkWebhookUrl("http://93.184.215.14/hook"), undefined);
+  // WEBHOOK_ALLOWED_HOSTS lets the test receiver through
+  assert.equal(await checkWebhookUrl(url), undefined);
+});
+
+test("refuses to deliver to a host that resolves privately", async () => {
+  receiver.received = [];
+  const { id } = sendWebhook({
+    jobId: "job-private",
+    target: {
+      url: url.replace("127.0.0.1", "localhost"),
+      secret,
+    },
+    event: "generation.succeeded",
+    data: {},
+  });
+  const delivery = await waitFor(id, settled);
+  assert.equal(delivery.status, "dead");
+  assert.match(delivery.lastError ?? "", /private address/);
+  assert.equal(receiver.received.length, 0);
+});
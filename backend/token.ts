@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { parseArgs } from "util";
+import { UserRole, signAccessToken } from "./auth";
+
+// Prints a bearer token signed with AUTH_JWT_SECRET, e.g. to bootstrap the
+// first admin who then creates API keys through the API
+function main() {
+  const { values } = parseArgs({
+    options: {
+      sub: { type: "string" },
+      role: { type: "string", default: "user" },
+      expires: { type: "string", default: "1h" },
+    },
+  });
+  if (!values.sub || !["admin", "user"].includes(values.role)) {
+    console.error(
+      "Usage: npm run token -- --sub alice [--role admin|user] [--expires 1h]"
+    );
+    process.exit(1);
+  }
+  console.log(
+    signAccessToken(values.sub, values.role as UserRole, values.expires)
+  );
+}
+
+main();
@@ -0,0 +1,287 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { withTables } from "./db";
+
+// Prices per model (per speech provider for voiceovers); edit the file or
+// point RATES_FILE at another one and restart to change them
+const RATES_FILE =
+  process.env.RATES_FILE || path.join(process.cwd(), "rates.json");
+
+const TokenRateSchema = z.object({
+  inputPerMillionTokens: z.number().min(0),
+  outputPerMillionTokens: z.number().min(0),
+});
+
+const RateTableSchema = z.object({
+  currency: z.string().default("USD"),
+  text: z.record(TokenRateSchema).default({}),
+  agents: z.record(TokenRateSchema).default({}),
+  image: z.record(z.object({ perImage: z.number().min(0) })).default({}),
+  video: z.record(z.object({ perSecond: z.number().min(0) })).default({}),
+  speech: z
+    .record(z.object({ perMillionCharacters: z.number().min(0) }))
+    .default({}),
+});
+
+type RateTable = z.infer<typeof RateTableSchema>;
+
+// Billable steps of a generation
+export const USAGE_STAGES = [
+  "agents",
+  "narration",
+  "image",
+  "video",
+  "voiceover",
+  "moderation",
+] as const;
+
+export type UsageStage = (typeof USAGE_STAGES)[number];
+
+export type UsageQuantities = {
+  requests?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  videoSeconds?: number;
+  characters?: number;
+};
+
+export type UsageEntry = UsageQuantities & {
+  stage: UsageStage;
+  style?: string;
+  // Model, or speech provider for voiceovers, that the rate was looked up by
+  model: string;
+  cost: number;
+  // Token counts were guessed from the text length
+  estimated?: boolean;
+};
+
+export type UsageSummary = {
+  currency: string;
+  totalCost: number;
+  entries: UsageEntry[];
+};
+
+export type UsageMeter = {
+  record(
+    stage: UsageStage,
+    usage: UsageQuantities & {
+      model: string;
+      style?: string;
+      estimated?: boolean;
+    }
+  ): void;
+  summary(): UsageSummary;
+};
+
+export type UsageGroup = "user" | "style" | "day";
+
+export type UsageReportRow = {
+  userId?: string | null;
+  style?: string | null;
+  day?: string;
+  generations: number;
+  cost: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  characters: number;
+};
+
+function loadRates(): RateTable {
+  if (!fs.existsSync(RATES_FILE)) {
+    console.warn(`[USAGE] Rate table not found: ${RATES_FILE}; costs are 0`);
+    return RateTableSchema.parse({});
+  }
+  const rates = RateTableSchema.parse(
+    JSON.parse(fs.readFileSync(RATES_FILE, "utf8"))
+  );
+  console.log(`[USAGE] Loaded rates from ${RATES_FILE}`);
+  return rates;
+}
+
+const rates = loadRates();
+
+// Sub-cent precision without floating point noise
+const roundCost = (cost: number) => Math.round(cost * 1e6) / 1e6;
+
+// Models without a rate are only reported once
+const missingRates = new Set<string>();
+
+function priceOf(
+  stage: UsageStage,
+  model: string,
+  usage: UsageQuantities
+): number {
+  const rate = {
+    agents: rates.agents,
+    narration: rates.text,
+    image: rates.image,
+    video: rates.video,
+    voiceover: rates.speech,
+    moderation: rates.agents,
+  }[stage][model];
+  if (!rate) {
+    if (!missingRates.has(`${stage}:${model}`)) {
+      missingRates.add(`${stage}:${model}`);
+      console.warn(`[USAGE] No ${stage} rate for "${model}"; pricing at 0`);
+    }
+    return 0;
+  }
+  const perMillion = (count = 0, price = 0) => (count / 1_000_000) * price;
+  return roundCost(
+    ("inputPerMillionTokens" in rate
+      ? perMillion(usage.inputTokens, rate.inputPerMillionTokens) +
+        perMillion(usage.outputTokens, rate.outputPerMillionTokens)
+      : 0) +
+      ("perImage" in rate ? (usage.images ?? 0) * rate.perImage : 0) +
+      ("perSecond" in rate ? (usage.videoSeconds ?? 0) * rate.perSecond : 0) +
+      ("perMillionCharacters" in rate
+        ? perMillion(usage.characters, rate.perMillionCharacters)
+        : 0)
+  );
+}
+
+// Rough token count for providers that don't report one
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Ledger of priced usage, one row per meter entry, kept for failed and
+// cancelled jobs too since their provider calls were still billed
+const getDb = withTables(`
+  CREATE TABLE IF NOT EXISTS usage_records (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id TEXT NOT NULL,
+    user_id TEXT,
+    style TEXT,
+    stage TEXT NOT NULL,
+    model TEXT NOT NULL,
+    requests INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    images INTEGER NOT NULL DEFAULT 0,
+    video_seconds REAL NOT NULL DEFAULT 0,
+    characters INTEGER NOT NULL DEFAULT 0,
+    cost REAL NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS usage_records_created_at
+    ON usage_records (created_at);
+  CREATE INDEX IF NOT EXISTS usage_records_user_id ON usage_records (user_id);
+`);
+
+// Collects the usage of one generation. With a job ID every entry is also
+// written to the ledger as soon as it's recorded.
+export function createUsageMeter({
+  jobId,
+  userId,
+}: { jobId?: string; userId?: string } = {}): UsageMeter {
+  const entries: UsageEntry[] = [];
+  return {
+    record(stage, { model, style, estimated, ...usage }) {
+      const entry: UsageEntry = {
+        stage,
+        style,
+        model,
+        ...usage,
+        estimated,
+        cost: priceOf(stage, model, usage),
+      };
+      entries.push(entry);
+      if (!jobId) return;
+      getDb()
+        .prepare(
+          `INSERT INTO usage_records (
+            job_id, user_id, style, stage, model, requests, input_tokens,
+            output_tokens, images, video_seconds, characters, cost, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          jobId,
+          userId ?? null,
+          style ?? null,
+          stage,
+          model,
+          usage.requests ?? 0,
+          usage.inputTokens ?? 0,
+          usage.outputTokens ?? 0,
+          usage.images ?? 0,
+          usage.videoSeconds ?? 0,
+          usage.characters ?? 0,
+          entry.cost,
+          new Date().toISOString()
+        );
+    },
+    summary() {
+      return {
+        currency: rates.currency,
+        totalCost: roundCost(
+          entries.reduce((total, entry) => total + entry.cost, 0)
+        ),
+        entries: [...entries],
+      };
+    },
+  };
+}
+
+const GROUP_COLUMNS: Record<UsageGroup, string> = {
+  user: "user_id AS userId",
+  style: "style",
+  day: "substr(created_at, 1, 10) AS day",
+};
+
+// Spend grouped by any of user, style and UTC day, most expensive first
+export function summarizeUsage({
+  groupBy,
+  userId,
+  from,
+  to,
+}: {
+  groupBy: UsageGroup[];
+  userId?: string;
+  // ISO timestamps; `to` is exclusive
+  from?: string;
+  to?: string;
+}): { currency: string; totalCost: number; rows: UsageReportRow[] } {
+  const conditions: string[] = [];
+  const params: Record<string, unknown> = {};
+  if (userId) {
+    conditions.push("user_id = @userId");
+    params.userId = userId;
+  }
+  if (from) {
+    conditions.push("created_at >= @from");
+    params.from = from;
+  }
+  if (to) {
+    conditions.push("created_at < @to");
+    params.to = to;
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const groups = [...new Set(groupBy)];
+  const groupClause = groups.length
+    ? `GROUP BY ${groups.map((_, i) => i + 1).join(", ")}`
+    : "";
+  const rows = getDb()
+    .prepare(
+      `SELECT ${groups.map((group) => `${GROUP_COLUMNS[group]}, `).join("")}
+        COUNT(DISTINCT job_id) AS generations,
+        SUM(cost) AS cost,
+        SUM(input_tokens) AS inputTokens,
+        SUM(output_tokens) AS outputTokens,
+        SUM(images) AS images,
+        SUM(video_seconds) AS videoSeconds,
+        SUM(characters) AS characters
+      FROM usage_records ${where} ${groupClause}
+      ORDER BY cost DESC`
+    )
+    .all(params) as UsageReportRow[];
+  // Without grouping an empty ledger still yields one row of NULL sums
+  const nonEmpty = rows.filter((row) => row.generations > 0);
+  return {
+    currency: rates.currency,
+    totalCost: roundCost(nonEmpty.reduce((total, row) => total + row.cost, 0)),
+    rows: nonEmpty.map((row) => ({ ...row, cost: roundCost(row.cost) })),
+  };
+}
@@ -0,0 +1,497 @@
+import { createHmac, randomUUID } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, LookupFunction, isIP } from "net";
+import { z } from "zod";
+import { withTables } from "./db";
+import type { JobStatus } from "./jobs";
+
+// Attempts per delivery before it goes to the dead-letter list; the wait
+// between attempts doubles from WEBHOOK_RETRY_BASE_SECONDS
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+const WEBHOOK_RETRY_BASE_SECONDS =
+  Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 10;
+
+// Longest a receiver may take to answer one attempt
+const WEBHOOK_TIMEOUT_SECONDS =
+  Number(process.env.WEBHOOK_TIMEOUT_SECONDS) || 10;
+
+// Hosts webhooks may reach even though they resolve to private addresses,
+// e.g. a CMS on the internal network; comma-separated
+const WEBHOOK_ALLOWED_HOSTS = new Set(
+  (process.env.WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and
+// reserved ranges. Webhook URLs come from API callers, so without this they
+// could make the server probe its own network.
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  // Unspecified and loopback
+  ["::", 127],
+  // Unique local, link-local and multicast; IPv4-mapped addresses
+  // (::ffff:127.0.0.1) are checked against the IPv4 ranges by BlockList
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+  // NAT64 and 6to4, which embed an IPv4 address that may be private
+  // (64:ff9b::a9fe:a9fe is 169.254.169.254)
+  ["64:ff9b::", 96],
+  ["2002::", 16],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const isPrivateAddress = (address: string) =>
+  privateAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+// URL hostnames keep IPv6 literals in brackets
+const hostOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+export const WEBHOOK_EVENTS = [
+  "generation.succeeded",
+  "generation.failed",
+  "generation.cancelled",
+  "generation.needs_input",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const DELIVERY_STATUSES = ["pending", "delivered", "dead"] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+// Where to POST a job's outcome. Each payload is signed with the secret:
+// X-Webhook-Signature is "sha256=" and the hex HMAC-SHA256 of
+// "<X-Webhook-Timestamp>.<body>".
+export const WebhookTargetSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine(
+      (url) => /^https?:\/\//.test(url),
+      "Webhook URLs use http or https"
+    ),
+  secret: z.string().min(16, "Webhook secrets are at least 16 characters"),
+});
+
+export type WebhookTarget = z.infer<typeof WebhookTargetSchema>;
+
+export type WebhookDelivery = {
+  id: string;
+  jobId: string;
+  // Owner of the job; deliveries are listed per user
+  userId?: string;
+  url: string;
+  event: WebhookEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  // Outcome of the last attempt that failed
+  lastError?: string;
+  lastStatusCode?: number;
+  nextAttemptAt?: string;
+  createdAt: string;
+  deliveredAt?: string;
+};
+
+type DeliveryRow = {
+  id: string;
+  job_id: string;
+  user_id: string | null;
+  url: string;
+  secret: string;
+  event: WebhookEvent;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  last_status_code: number | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+// Deliveries are kept once delivered, for auditing; dead ones wait for a
+// redelivery. The secret is stored so retries can sign the payload again.
+const getDb = withTables(`
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL,
+    user_id TEXT,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    event TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    last_status_code INTEGER,
+    next_attempt_at TEXT,
+    created_at TEXT NOT NULL,
+    delivered_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_status
+    ON webhook_deliveries (status);
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_user_id
+    ON webhook_deliveries (user_id);
+`);
+
+// Retries waiting to run in this process
+const timers = new Map<string, NodeJS.Timeout>();
+
+function toDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    userId: row.user_id ?? undefined,
+    url: row.url,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error ?? undefined,
+    lastStatusCode: row.last_status_code ?? undefined,
+    nextAttemptAt: row.next_attempt_at ?? undefined,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at ?? undefined,
+  };
+}
+
+const getRow = (id: string) =>
+  getDb().prepare("SELECT * FROM webhook_deliveries WHERE id = ?").get(id) as
+    | DeliveryRow
+    | undefined;
+
+// Why the URL can't be a webhook target, or undefined when it can. Its host
+// has to resolve to public addresses only, unless WEBHOOK_ALLOWED_HOSTS
+// lists it. Deliveries check the address they connect to again, in case the
+// name resolves differently by then.
+export async function checkWebhookUrl(
+  url: string
+): Promise<string | undefined> {
+  const host = hostOf(new URL(url));
+  if (WEBHOOK_ALLOWED_HOSTS.has(host)) return undefined;
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true })).map(
+          ({ address }) => address
+        );
+  } catch {
+    return `Webhook host ${host} could not be resolved`;
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  if (!blocked) return undefined;
+  return blocked === host
+    ? `Webhook host ${host} is a private address`
+    : `Webhook host ${host} resolves to the private address ${blocked}`;
+}
+
+// DNS lookup for deliveries that refuses private addresses, so the check
+// covers the address actually connected to
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    const blocked = WEBHOOK_ALLOWED_HOSTS.has(hostname.toLowerCase())
+      ? undefined
+      : addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return callback(
+        new Error(
+          `${hostname} resolves to the private address ${blocked.address}`
+        ),
+        ""
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POST the body and resolve with the status code. Redirects aren't followed:
+// they would resend the signed payload somewhere else.
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<number> {
+  const target = new URL(url);
+  const host = hostOf(target);
+  // Literal addresses skip the lookup, so they're checked here
+  if (
+    isIP(host) &&
+    isPrivateAddress(host) &&
+    !WEBHOOK_ALLOWED_HOSTS.has(host)
+  ) {
+    return Promise.reject(new Error(`${host} is a private address`));
+  }
+  const request = target.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "content-length": Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_SECONDS * 1000),
+      },
+      (res) => {
+        res.resume();
+        res.on("end", () => resolve(res.statusCode ?? 0));
+        res.on("error", reject);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// Event for a job that stopped running; queued and running jobs have none
+export function jobEvent(status: JobStatus): WebhookEvent | undefined {
+  switch (status) {
+    case "succeeded":
+      return "generation.succeeded";
+    case "failed":
+      return "generation.failed";
+    case "cancelled":
+      return "generation.cancelled";
+    case "needs_input":
+      return "generation.needs_input";
+    default:
+      return undefined;
+  }
+}
+
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return `sha256=${createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")}`;
+}
+
+// Body of every attempt of a delivery: the same id and event each time
+const payloadBody = (row: DeliveryRow) =>
+  JSON.stringify({
+    id: row.id,
+    event: row.event,
+    createdAt: row.created_at,
+    data: JSON.parse(row.payload),
+  });
+
+// POST the delivery once. A 2xx answer delivers it; anything else schedules
+// the next attempt, or moves it to the dead-letter list after the last one.
+async function attemptDelivery(id: string) {
+  timers.delete(id);
+  const row = getRow(id);
+  if (!row || row.status !== "pending") return;
+
+  const body = payloadBody(row);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let statusCode: number | undefined;
+  let error: string | undefined;
+  try {
+    statusCode = await postWebhook(
+      row.url,
+      {
+        "content-type": "application/json",
+        "user-agent": "video-generation-webhooks",
+        "x-webhook-id": row.id,
+        "x-webhook-event": row.event,
+        "x-webhook-timestamp": String(timestamp),
+        "x-webhook-signature": signPayload(row.secret, timestamp, body),
+      },
+      body
+    );
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `Receiver answered ${statusCode}`;
+    }
+  } catch (cause) {
+    error = cause instanceof Error ? cause.message : String(cause);
+  }
+
+  const attempts = row.attempts + 1;
+  const now = new Date();
+  const db = getDb();
+  if (!error) {
+    db.prepare(
+      `UPDATE webhook_deliveries SET status = 'delivered', attempts = ?,
+        last_error = NULL, last_status_code = ?, next_attempt_at = NULL, delivered_at = ?
+      WHERE id = ?`
+    ).run(attempts, statusCode, now.toISOString(), id);
+    console.log(`[WEBHOOKS] Delivered ${row.event} for job ${row.job_id}`);
+    return;
+  }
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    db.prepare(
+      `UPDATE webhook_deliveries SET status = 'dead', attempts = ?,
+        last_error = ?, last_status_code = ?, next_attempt_at = NULL
+      WHERE id = ?`
+    ).run(attempts, error, statusCode ?? null, id);
+    console.error(
+      `[WEBHOOKS] Giving up on delivery ${id} to ${row.url} after ${attempts} attempts: ${error}`
+    );
+    return;
+  }
+  const delayMs = WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempts - 1);
+  db.prepare(
+    `UPDATE webhook_deliveries SET attempts = ?, last_error = ?,
+      last_status_code = ?, next_attempt_at = ?
+    WHERE id = ?`
+  ).run(
+    attempts,
+    error,
+    statusCode ?? null,
+    new Date(now.getTime() + delayMs).toISOString(),
+    id
+  );
+  console.warn(
+    `[WEBHOOKS] Delivery ${id} to ${
+      row.url
+    } failed (attempt ${attempts}): ${error}; retrying in ${delayMs / 1000}s`
+  );
+  scheduleDelivery(id, delayMs);
+}
+
+function scheduleDelivery(id: string, delayMs: number) {
+  clearTimeout(timers.get(id));
+  const timer = setTimeout(() => {
+    attemptDelivery(id).catch((error) =>
+      console.error(`[WEBHOOKS] Delivery ${id} failed:`, error)
+    );
+  }, delayMs);
+  // Pending retries don't keep the process alive; they resume on restart
+  timer.unref();
+  timers.set(id, timer);
+}
+
+// Queue a delivery of the event and make the first attempt right away
+export function sendWebhook({
+  jobId,
+  userId,
+  target,
+  event,
+  data,
+}: {
+  jobId: string;
+  userId?: string;
+  target: WebhookTarget;
+  event: WebhookEvent;
+  // Payload under `data`, e.g. the job's response envelope
+  data: unknown;
+}): WebhookDelivery {
+  const row: DeliveryRow = {
+    id: randomUUID(),
+    job_id: jobId,
+    user_id: userId ?? null,
+    url: target.url,
+    secret: target.secret,
+    event,
+    payload: JSON.stringify(data),
+    status: "pending",
+    attempts: 0,
+    last_error: null,
+    last_status_code: null,
+    next_attempt_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    delivered_at: null,
+  };
+  getDb()
+    .prepare(
+      `INSERT INTO webhook_deliveries (
+        id, job_id, user_id, url, secret, event, payload, status, attempts,
+        next_attempt_at, created_at
+      ) VALUES (
+        @id, @job_id, @user_id, @url, @secret, @event, @payload, @status,
+        @attempts, @next_attempt_at, @created_at
+      )`
+    )
+    .run(row);
+  scheduleDelivery(row.id, 0);
+  return toDelivery(row);
+}
+
+// Newest first, optionally only one user's or with one status
+export function listWebhookDeliveries({
+  userId,
+  status,
+  limit = 100,
+}: {
+  userId?: string;
+  status?: DeliveryStatus;
+  limit?: number;
+}): WebhookDelivery[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT * FROM webhook_deliveries
+      WHERE (@userId IS NULL OR user_id = @userId)
+        AND (@status IS NULL OR status = @status)
+      ORDER BY created_at DESC LIMIT @limit`
+    )
+    .all({
+      userId: userId ?? null,
+      status: status ?? null,
+      limit,
+    }) as DeliveryRow[];
+  return rows.map(toDelivery);
+}
+
+export function getWebhookDelivery(id: string): WebhookDelivery | undefined {
+  const row = getRow(id);
+  return row && toDelivery(row);
+}
+
+// Send a delivery again from the first attempt, e.g. from the dead-letter
+// list once the receiver is fixed. `data` replaces the stored payload, so
+// media links can be signed afresh.
+export function redeliverWebhook(
+  id: string,
+  data?: unknown
+): WebhookDelivery | undefined {
+  const row = getRow(id);
+  if (!row) return undefined;
+  getDb()
+    .prepare(
+      `UPDATE webhook_deliveries SET status = 'pending', attempts = 0,
+        payload = ?, next_attempt_at = ?, delivered_at = NULL
+      WHERE id = ?`
+    )
+    .run(
+      data === undefined ? row.payload : JSON.stringify(data),
+      new Date().toISOString(),
+      id
+    );
+  console.log(`[WEBHOOKS] Redelivering ${id} to ${row.url}`);
+  scheduleDelivery(id, 0);
+  return getWebhookDelivery(id);
+}
+
+// Pick up deliveries that were still retrying when the server stopped
+export function resumeWebhookDeliveries() {
+  const rows = getDb()
+    .prepare("SELECT * FROM webhook_deliveries WHERE status = 'pending'")
+    .all() as DeliveryRow[];
+  for (const row of rows) {
+    const dueAt = row.next_attempt_at ? Date.parse(row.next_attempt_at) : 0;
+    scheduleDelivery(row.id, Math.max(0, dueAt - Date.now()));
+  }
+  if (rows.length > 0) {
+    console.log(`[WEBHOOKS] Resuming ${rows.length} pending deliveries`);
+  }
+}